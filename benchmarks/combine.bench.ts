@@ -0,0 +1,40 @@
+import Benchmark from 'benchmark';
+import { Atom, Effect, Source } from '../src';
+
+const suite = new Benchmark.Suite();
+
+// Number of combined Atoms; the first one is updated
+const INPUT_COUNT = 10;
+
+const run = (
+  combine: (...sources: Atom<number>[]) => Source<number[]>
+): void => {
+  const atoms = Array.from(
+    { length: INPUT_COUNT },
+    (_, i) => new Atom<number>(i)
+  );
+  const subscription = combine(...atoms)
+    .subscribe(() => new Effect<void>(() => {}))
+    .initialize();
+  for (let i = 0; i < 100; i++) {
+    atoms[0]!.set(i + INPUT_COUNT);
+  }
+  void subscription.finalize();
+};
+
+suite
+  .add('combineAll: 100 updates of the first of 10 Atoms', () => {
+    // Every update re-subscribes to all later Atoms
+    run((...sources) => Source.combineAll<number[]>(...sources));
+  })
+  .add('combineLatest: 100 updates of the first of 10 Atoms', () => {
+    // Every update only re-emits the tuple
+    run((...sources) => Source.combineLatest<number[]>(...sources));
+  })
+  .on('cycle', function (event: Benchmark.Event) {
+    console.log(String(event.target));
+  })
+  .on('complete', function (this: Benchmark.Suite) {
+    console.log('Fastest is ' + this.filter('fastest').map('name'));
+  })
+  .run({ async: true });
@@ -0,0 +1,52 @@
+import Benchmark from 'benchmark';
+import { Effect, toRoutine, use } from '../src';
+
+const suite = new Benchmark.Suite();
+
+// Number of sequential asynchronous steps per Blueprint
+const STEP_COUNT = 100;
+
+const step = (i: number): Effect<number> => new Effect<number>(async () => i);
+
+suite
+  .add('Replay: 100 async use()', {
+    defer: true,
+    fn: function (deferred: Benchmark.Deferred) {
+      // Every suspension replays the Blueprint from the top: O(n²)
+      const routine = toRoutine(() => {
+        let sum = 0;
+        for (let i = 0; i < STEP_COUNT; i++) {
+          sum += use(step(i));
+        }
+        return sum;
+      });
+      const { result, finalize } = routine.initialize();
+      Promise.resolve(result)
+        .then(() => finalize())
+        .then(() => deferred.resolve());
+    },
+  })
+  .add('Generator: 100 async yield*', {
+    defer: true,
+    fn: function (deferred: Benchmark.Deferred) {
+      // The generator resumes where it left off: O(n)
+      const routine = toRoutine(function* () {
+        let sum = 0;
+        for (let i = 0; i < STEP_COUNT; i++) {
+          sum += yield* step(i);
+        }
+        return sum;
+      });
+      const { result, finalize } = routine.initialize();
+      Promise.resolve(result)
+        .then(() => finalize())
+        .then(() => deferred.resolve());
+    },
+  })
+  .on('cycle', function (event: Benchmark.Event) {
+    console.log(String(event.target));
+  })
+  .on('complete', function (this: Benchmark.Suite) {
+    console.log('Fastest is ' + this.filter('fastest').map('name'));
+  })
+  .run({ async: true });
@@ -1,3 +1,4 @@
+import { finalizeConcurrently, withCleanup } from './finalize';
 import { Routine } from './routine';
 import { MaybePromise } from './util';
 
@@ -14,6 +15,9 @@ type RoutineState =
 export class BiLinkMap<A, B> {
   private aToB = new Map<A, Map<B, RoutineState>>();
   private bToA = new Map<B, Map<A, RoutineState>>();
+  // Sides whose links are being finalized; they must not get new links
+  private unlinkingAs = new Set<A>();
+  private unlinkingBs = new Set<B>();
 
   getAs(): Iterable<A> {
     return this.aToB.keys();
@@ -46,12 +50,19 @@ export class BiLinkMap<A, B> {
     const link = this.aToB.get(a)?.get(b);
     if (!link) return;
     if (link.state === 'finalizing') return link.promise;
-    const maybePromise = link.finalize();
+    const remove = (): void => {
+      this.aToB.get(a)?.delete(b);
+      this.bToA.get(b)?.delete(a);
+    };
+    let maybePromise: MaybePromise<void>;
+    try {
+      maybePromise = link.finalize();
+    } catch (error) {
+      remove();
+      throw error;
+    }
     if (maybePromise instanceof Promise) {
-      const finalizePromise = maybePromise.then(() => {
-        this.aToB.get(a)?.delete(b);
-        this.bToA.get(b)?.delete(a);
-      });
+      const finalizePromise = maybePromise.finally(remove);
       const newLink = {
         state: 'finalizing' as const,
         promise: finalizePromise,
@@ -60,56 +71,58 @@ export class BiLinkMap<A, B> {
       this.bToA.get(b)?.set(a, newLink);
       return finalizePromise;
     }
-    this.aToB.get(a)?.delete(b);
-    this.bToA.get(b)?.delete(a);
+    remove();
     return;
   }
 
   /** Link A to all B */
   linkAllA(a: A, component: (b: B) => Routine<void>): void {
     this.aToB.set(a, new Map());
-    const bs = this.bToA.keys();
-    [...bs].map(b => this.link(a, b, component(b)));
+    const bs = [...this.bToA.keys()].filter(b => !this.unlinkingBs.has(b));
+    bs.map(b => this.link(a, b, component(b)));
   }
 
-  /** Link B to all A */
-  linkAllB(b: B, component: (a: A) => Routine<void>): void {
+  /** Link B to all A, in insertion order of A unless `compare` is given */
+  linkAllB(
+    b: B,
+    component: (a: A) => Routine<void>,
+    compare?: (x: A, y: A) => number
+  ): void {
     this.bToA.set(b, new Map());
-    const as = this.aToB.keys();
-    [...as].map(a => this.link(a, b, component(a)));
+    const as = [...this.aToB.keys()].filter(a => !this.unlinkingAs.has(a));
+    if (compare) as.sort(compare);
+    as.map(a => this.link(a, b, component(a)));
   }
 
   /** Unlink all links associated with A */
   unlinkAllA(a: A): MaybePromise<void> {
-    const bs = this.bToA.keys();
-    const promises = [...bs].map(b => this.unlink(a, b));
-    if (promises.some(p => p instanceof Promise)) {
-      return Promise.all(promises).then(() => {
+    const bs = [...this.bToA.keys()];
+    this.unlinkingAs.add(a);
+    return withCleanup(
+      () => finalizeConcurrently(bs.map(b => () => this.unlink(a, b))),
+      () => {
+        this.unlinkingAs.delete(a);
         this.aToB.delete(a);
-      });
-    }
-    this.aToB.delete(a);
+      }
+    );
   }
 
   /** Unlink all links associated with B */
   unlinkAllB(b: B): MaybePromise<void> {
-    const as = this.aToB.keys();
-    const promises = [...as].map(a => this.unlink(a, b));
-    if (promises.some(p => p instanceof Promise)) {
-      return Promise.all(promises).then(() => {
+    const as = [...this.aToB.keys()];
+    this.unlinkingBs.add(b);
+    return withCleanup(
+      () => finalizeConcurrently(as.map(a => () => this.unlink(a, b))),
+      () => {
+        this.unlinkingBs.delete(b);
         this.bToA.delete(b);
-      });
-    }
-    this.bToA.delete(b);
+      }
+    );
   }
 
   /** Unlink and clear all links */
   unlinkAll(): MaybePromise<void> {
-    const as = this.aToB.keys();
-    const promises = [...as].map(a => this.unlinkAllA(a));
-    if (promises.some(p => p instanceof Promise)) {
-      return Promise.all(promises).then(() => {});
-    }
-    return;
+    const as = [...this.aToB.keys()];
+    return finalizeConcurrently(as.map(a => () => this.unlinkAllA(a)));
   }
 }
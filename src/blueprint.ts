@@ -1,7 +1,29 @@
-import { Effect, Fiber, Routine } from './routine';
-import { Atom, Portal, Source } from './source';
+import { BasicRoutine, Effect, Fiber, Routine } from './routine';
+import { getConfig } from './config';
+import {
+  BlueprintOrderError,
+  CancelledError,
+  RestartLimitError,
+} from './errors';
+import { finalizeInOrder } from './finalize';
+import { RetryPolicy } from './retry';
+import {
+  Atom,
+  AtomOptions,
+  DeriveOptions,
+  FocusTarget,
+  Focused,
+  FocusedAtom,
+  OrderedConnection,
+  OrderedPortal,
+  OrderedPosition,
+  Portal,
+  ReadonlyAtom,
+  Source,
+  ValidFocusTarget,
+} from './source';
 import { Structural } from './structural';
-import { MaybePromise } from './util';
+import { MaybePromise, abortable } from './util';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type BlueprintResult = any;
@@ -16,6 +38,23 @@ type BLUEPRINT_GLOBAL_CONTEXT_TYPE = {
 let BLUEPRINT_GLOBAL_CONTEXT: BLUEPRINT_GLOBAL_CONTEXT_TYPE | undefined =
   undefined;
 
+type ErrorHandler = (error: unknown) => void;
+
+const ERROR_HANDLER_KEY = Symbol('Quon.ErrorHandler');
+
+const DEADLINE_KEY = Symbol('Quon.Deadline');
+
+/**
+ * Thrown by `use` when a Routine has not settled yet.
+ * `toRoutine` waits for the promise and then replays the Blueprint.
+ */
+class Suspension {
+  constructor(
+    public readonly index: number,
+    public readonly promise: Promise<BlueprintResult>
+  ) {}
+}
+
 export type Context<T> = {
   key: symbol;
   useProvider(value: T): void;
@@ -47,7 +86,7 @@ function provideContext<T>(key: symbol, value: T): void {
           global.getUserCtx()[key] = temp;
         }
       });
-    })
+    }).withLabel('useProvider')
   );
 }
 
@@ -88,55 +127,253 @@ export function createContext<T>(): Context<T> {
   };
 }
 
+/**
+ * A Blueprint written as a generator function.
+ * `yield* routine` uses a Routine and resumes with its result without replaying the Blueprint.
+ */
+export type BlueprintGenerator<T> = Generator<Routine<unknown>, T, unknown>;
+
 /**
  * Convert a Blueprint function into an Routine.
+ * If the Blueprint throws, the result rejects after every Routine it used has been finalized.
  */
 export function toRoutine<T>(
-  blueprint: () => T,
+  blueprint: () => T | BlueprintGenerator<T>,
   userCtx?: UserContext
 ): Routine<T> {
-  return new Effect<T>(async addFinalizeFn => {
-    const routineUserCtx = { ...userCtx };
-    const history: BlueprintResult[] = [];
-    let currentIndex = 0;
-
-    function use<U>(routine: Routine<U>): U {
-      const index = currentIndex;
-      currentIndex++;
-      if (index < history.length) {
-        return history[index];
+  return finalizeOnError(
+    new Effect<T>(async (addFinalizeFn, abortSignal) => {
+      const routineUserCtx = { ...userCtx };
+      const history: BlueprintResult[] = [];
+      const fingerprints: string[] = [];
+      let currentIndex = 0;
+
+      function use<U>(routine: Routine<U>): U {
+        const index = currentIndex;
+        currentIndex++;
+        if (getConfig().devMode) {
+          const fingerprint = getFingerprint(routine);
+          if (index < fingerprints.length) {
+            if (fingerprints[index] !== fingerprint) {
+              throw new BlueprintOrderError(
+                index,
+                fingerprints[index],
+                fingerprint
+              );
+            }
+          } else {
+            fingerprints[index] = fingerprint;
+          }
+        }
+        if (index < history.length) {
+          return history[index];
+        }
+        // Nothing new starts once the Blueprint is finalized
+        if (abortSignal.aborted) {
+          throw new CancelledError();
+        }
+        const { result, finalize } = routine.initialize();
+        addFinalizeFn(finalize);
+        if (result instanceof Promise) {
+          throw new Suspension(index, result);
+        }
+        history[index] = result;
+        return result;
       }
-      const { result, finalize } = routine.initialize();
-      addFinalizeFn(finalize);
-      if (result instanceof Promise) {
-        throw {
-          index,
-          promise: result,
+
+      while (true) {
+        const tmp = BLUEPRINT_GLOBAL_CONTEXT;
+        BLUEPRINT_GLOBAL_CONTEXT = {
+          use: use,
+          getUserCtx: (): UserContext => routineUserCtx,
         };
+        try {
+          currentIndex = 0;
+          const result = blueprint();
+          BLUEPRINT_GLOBAL_CONTEXT = tmp;
+          if (getConfig().devMode && currentIndex < fingerprints.length) {
+            throw new BlueprintOrderError(
+              currentIndex,
+              fingerprints[currentIndex],
+              undefined
+            );
+          }
+          if (isBlueprintGenerator(result)) {
+            return await runGenerator(
+              result,
+              addFinalizeFn,
+              abortSignal,
+              routineUserCtx
+            );
+          }
+          return result;
+        } catch (e) {
+          BLUEPRINT_GLOBAL_CONTEXT = tmp;
+          if (!(e instanceof Suspension)) {
+            throw e;
+          }
+          history[e.index] = await e.promise;
+          if (abortSignal.aborted) {
+            throw new CancelledError();
+          }
+        }
       }
-      history[index] = result;
-      return result;
+    })
+  );
+}
+
+function getFingerprint(routine: Routine<unknown>): string {
+  return routine.label ?? (routine.constructor.name || '<anonymous Routine>');
+}
+
+function isBlueprintGenerator<T>(
+  value: T | BlueprintGenerator<T>
+): value is BlueprintGenerator<T> {
+  return Object.prototype.toString.call(value) === '[object Generator]';
+}
+
+/**
+ * Drive a generator Blueprint step by step.
+ * Each yielded Routine is initialized once and its result (or error) is sent back into the generator.
+ * Hooks called between yields only accept synchronous Routines, since a generator cannot be replayed.
+ * Once finalized, the generator is closed at the current yield, and only then
+ * are the Routines it started finalized.
+ */
+async function runGenerator<T>(
+  generator: BlueprintGenerator<T>,
+  addFinalizeFn: (finalizeFn: () => MaybePromise<void>) => void,
+  abortSignal: AbortSignal,
+  routineUserCtx: UserContext
+): Promise<T> {
+  // Routines started by the generator, finalized once it has been closed
+  const finalizeFns: Array<() => MaybePromise<void>> = [];
+  let isRunning = false;
+  let isClosed = false;
+
+  function use<U>(routine: Routine<U>): U {
+    if (abortSignal.aborted) {
+      throw new CancelledError();
+    }
+    const { result, finalize } = routine.initialize();
+    finalizeFns.push(finalize);
+    if (result instanceof Promise) {
+      throw new Error(
+        'Asynchronous Routine passed to use() inside a generator Blueprint. ' +
+          'Use `yield* routine` to wait for it instead.'
+      );
+    }
+    return result;
+  }
+
+  function resume<R>(
+    fn: () => IteratorResult<Routine<unknown>, R>
+  ): IteratorResult<Routine<unknown>, R> {
+    const tmp = BLUEPRINT_GLOBAL_CONTEXT;
+    BLUEPRINT_GLOBAL_CONTEXT = {
+      use: use,
+      getUserCtx: (): UserContext => routineUserCtx,
+    };
+    isRunning = true;
+    try {
+      return fn();
+    } finally {
+      isRunning = false;
+      BLUEPRINT_GLOBAL_CONTEXT = tmp;
+    }
+  }
+
+  // Run the generator's `finally` blocks; nothing after the current yield runs
+  function close(): void {
+    if (isClosed || isRunning) return;
+    isClosed = true;
+    resume(() => generator.return(undefined as T));
+  }
+
+  function cancel(): never {
+    close();
+    throw new CancelledError();
+  }
+
+  // Like a stack unwinding, the `finally` blocks run before the cleanups of
+  // the Routines they might still refer to
+  addFinalizeFn(() => finalizeInOrder([close, ...[...finalizeFns].reverse()]));
+
+  let input:
+    | { ok: true; value: BlueprintResult }
+    | { ok: false; error: unknown } = { ok: true, value: undefined };
+
+  while (true) {
+    const step = resume(() =>
+      input.ok ? generator.next(input.value) : generator.throw(input.error)
+    );
+    if (step.done) {
+      return step.value;
     }
 
-    while (true) {
-      const tmp = BLUEPRINT_GLOBAL_CONTEXT;
-      BLUEPRINT_GLOBAL_CONTEXT = {
-        use: use,
-        getUserCtx: (): UserContext => routineUserCtx,
+    if (abortSignal.aborted) {
+      cancel();
+    }
+    const { result, finalize } = step.value.initialize();
+    finalizeFns.push(finalize);
+    try {
+      input = {
+        ok: true,
+        value:
+          result instanceof Promise
+            ? await abortable(result, abortSignal)
+            : result,
       };
-      try {
-        currentIndex = 0;
-        const result = blueprint();
-        BLUEPRINT_GLOBAL_CONTEXT = tmp;
-        return result;
-      } catch (e) {
-        BLUEPRINT_GLOBAL_CONTEXT = tmp;
-        if (e instanceof Object && 'index' in e && 'promise' in e) {
-          const result = await e.promise;
-          history[e.index as number] = result;
-        }
-      }
+    } catch (error) {
+      input = { ok: false, error };
     }
+    if (abortSignal.aborted) {
+      cancel();
+    }
+  }
+}
+
+function finalizeOnError<T>(routine: Routine<T>): Routine<T> {
+  return new BasicRoutine(() => {
+    const { result, finalize } = routine.initialize();
+    return {
+      result:
+        result instanceof Promise
+          ? result.catch(async (error: unknown) => {
+              await Promise.resolve()
+                .then(finalize)
+                .catch(() => {});
+              throw error;
+            })
+          : result,
+      finalize,
+    };
+  });
+}
+
+/**
+ * Forward a failure of the Routine to the nearest error boundary, if any.
+ * A failure reported this way never settles the Routine's result.
+ */
+function reportErrors<T>(
+  routine: Routine<T>,
+  userCtx: UserContext
+): Routine<T> {
+  const onError = userCtx[ERROR_HANDLER_KEY] as ErrorHandler | undefined;
+  if (onError === undefined) {
+    return routine;
+  }
+  return new BasicRoutine(() => {
+    const { result, finalize } = routine.initialize();
+    return {
+      result:
+        result instanceof Promise
+          ? result.catch((error: unknown) => {
+              onError(error);
+              return new Promise<T>(() => {});
+            })
+          : result,
+      finalize,
+    };
   });
 }
 
@@ -150,17 +387,283 @@ export function useAll<T, U>(
   rightBlueprint: () => U
 ): [T, U] {
   return use(
-    Routine.all([toRoutine(leftBlueprint), toRoutine(rightBlueprint)])
+    Routine.all([
+      toRoutine(leftBlueprint),
+      toRoutine(rightBlueprint),
+    ]).withLabel('useAll')
+  );
+}
+
+export function useRace<T extends unknown[]>(
+  ...blueprints: { [K in keyof T]: () => T[K] }
+): T[number] {
+  const userCtx = useUserContext();
+  return use(
+    Routine.race(toRoutines<T>(blueprints, userCtx)).withLabel('useRace')
+  );
+}
+
+export function useAny<T extends unknown[]>(
+  ...blueprints: { [K in keyof T]: () => T[K] }
+): T[number] {
+  const userCtx = useUserContext();
+  return use(
+    Routine.any(toRoutines<T>(blueprints, userCtx)).withLabel('useAny')
+  );
+}
+
+export function useAllSettled<T extends unknown[]>(
+  ...blueprints: { [K in keyof T]: () => T[K] }
+): { [K in keyof T]: PromiseSettledResult<T[K]> } {
+  const userCtx = useUserContext();
+  return use(
+    Routine.allSettled(toRoutines<T>(blueprints, userCtx)).withLabel(
+      'useAllSettled'
+    )
+  );
+}
+
+function toRoutines<T extends unknown[]>(
+  blueprints: { [K in keyof T]: () => T[K] },
+  userCtx: UserContext
+): { [K in keyof T]: Routine<T[K]> } {
+  return blueprints.map(blueprint => toRoutine(blueprint, userCtx)) as {
+    [K in keyof T]: Routine<T[K]>;
+  };
+}
+
+export function useRetry<T>(blueprint: () => T, policy: RetryPolicy): T {
+  const userCtx = useUserContext();
+  return use(
+    Routine.retry(toRoutine(blueprint, userCtx), policy).withLabel('useRetry')
+  );
+}
+
+export function useDeadline<T>(timeoutMs: number, blueprint: () => T): T {
+  const userCtx = useUserContext();
+  const parentDeadline = userCtx[DEADLINE_KEY] as number | undefined;
+  return use(
+    new BasicRoutine(() => {
+      // An inner deadline never outlives the deadline of its parent
+      const now = Date.now();
+      const deadline = Math.min(now + timeoutMs, parentDeadline ?? Infinity);
+      return Routine.timeout(
+        toRoutine(blueprint, { ...userCtx, [DEADLINE_KEY]: deadline }),
+        deadline - now
+      ).initialize();
+    }).withLabel('useDeadline')
   );
 }
 
 export function useFork<T>(blueprint: () => T): Fiber<T> {
   const userCtx = useUserContext();
-  return use(Routine.fork(toRoutine(blueprint, userCtx)));
+  return use(Routine.fork(toRoutine(blueprint, userCtx)).withLabel('useFork'));
 }
 
 export function useJoin<T>(fiber: Fiber<T>): T {
-  return use(Routine.join(fiber));
+  return use(Routine.join(fiber).withLabel('useJoin'));
+}
+
+export function useErrorBoundary<T, U>(
+  blueprint: () => T,
+  fallback: (error: unknown) => U
+): T | U {
+  const userCtx = useUserContext();
+  const onOuterError = userCtx[ERROR_HANDLER_KEY] as ErrorHandler | undefined;
+
+  return use(
+    new BasicRoutine<T | U>(() => {
+      let finalizeCurrent: () => MaybePromise<void> = () => {};
+      let hasFailed = false;
+      let isSettled = false;
+      let isFinalized = false;
+      let resolveResult: (value: T | U) => void = () => {};
+      let rejectResult: (error: unknown) => void = () => {};
+      const result = new Promise<T | U>((resolve, reject) => {
+        resolveResult = resolve;
+        rejectResult = reject;
+      });
+
+      const startFallback = (error: unknown): void => {
+        if (isFinalized) return;
+        const fallbackRoutine = toRoutine(() => fallback(error), userCtx);
+        const { result: fallbackResult, finalize } =
+          fallbackRoutine.initialize();
+        finalizeCurrent = finalize;
+        Promise.resolve(fallbackResult).then(
+          value => {
+            if (isSettled) return;
+            isSettled = true;
+            resolveResult(value);
+          },
+          (fallbackError: unknown) => {
+            if (!isSettled) {
+              isSettled = true;
+              rejectResult(fallbackError);
+            } else if (onOuterError) {
+              onOuterError(fallbackError);
+            } else {
+              getConfig().onUnhandledError(fallbackError);
+            }
+          }
+        );
+      };
+
+      const onError = (error: unknown): void => {
+        if (hasFailed || isFinalized) return;
+        hasFailed = true;
+        let teardown: MaybePromise<void>;
+        try {
+          teardown = finalizeCurrent();
+        } catch {
+          // Reported through onFinalizeError; the fallback starts regardless
+          teardown = undefined;
+        }
+        if (teardown instanceof Promise) {
+          teardown.then(
+            () => startFallback(error),
+            () => startFallback(error)
+          );
+        } else {
+          startFallback(error);
+        }
+      };
+
+      const child = toRoutine(blueprint, {
+        ...userCtx,
+        [ERROR_HANDLER_KEY]: onError,
+      }).initialize();
+      finalizeCurrent = child.finalize;
+      Promise.resolve(child.result).then(value => {
+        if (hasFailed || isSettled) return;
+        isSettled = true;
+        resolveResult(value);
+      }, onError);
+
+      return {
+        result,
+        finalize: (): MaybePromise<void> => {
+          isFinalized = true;
+          return finalizeCurrent();
+        },
+      };
+    }).withLabel('useErrorBoundary')
+  );
+}
+
+export type SupervisorStrategy = 'one-for-one' | 'one-for-all' | 'rest-for-one';
+
+export type SupervisorOptions = {
+  /** How many restarts are allowed within `withinMs` before escalating. */
+  maxRestarts?: number;
+  withinMs?: number;
+};
+
+export function useSupervisor(
+  strategy: SupervisorStrategy,
+  children: Array<() => unknown>,
+  options: SupervisorOptions = {}
+): void {
+  const userCtx = useUserContext();
+  const onOuterError = userCtx[ERROR_HANDLER_KEY] as ErrorHandler | undefined;
+  const { maxRestarts = 3, withinMs = 5000 } = options;
+
+  return use(
+    new BasicRoutine<void>(() => {
+      // `token` identifies the running instance of each child; it is cleared
+      // as soon as that instance fails or is scheduled for a restart.
+      const slots: Array<{
+        token: object | undefined;
+        finalize: () => MaybePromise<void>;
+      }> = children.map(() => ({ token: undefined, finalize: (): void => {} }));
+      const restartTimes: number[] = [];
+      let isStopped = false;
+      let queue: Promise<void> = Promise.resolve();
+
+      const finalizeChildren = (indices: number[]): Promise<void> =>
+        Promise.resolve()
+          .then(() =>
+            finalizeInOrder(
+              [...indices].reverse().map(index => slots[index]!.finalize)
+            )
+          )
+          // Failed cleanups are reported through onFinalizeError
+          .catch(() => {});
+
+      const start = (index: number): void => {
+        const token = {};
+        const onError = (error: unknown): void => {
+          if (slots[index]!.token === token) {
+            onChildError(index, error);
+          }
+        };
+        const { result, finalize } = toRoutine(children[index]!, {
+          ...userCtx,
+          [ERROR_HANDLER_KEY]: onError,
+        }).initialize();
+        slots[index] = { token, finalize };
+        Promise.resolve(result).then(() => {}, onError);
+      };
+
+      const escalate = (error: unknown): void => {
+        isStopped = true;
+        const escalated = new RestartLimitError(maxRestarts, withinMs, error);
+        queue = queue.then(() =>
+          finalizeChildren(children.map((_, index) => index))
+        );
+        void queue.then(() => {
+          if (onOuterError) {
+            onOuterError(escalated);
+          } else {
+            getConfig().onUnhandledError(escalated);
+          }
+        });
+      };
+
+      const onChildError = (index: number, error: unknown): void => {
+        if (isStopped) return;
+
+        const now = Date.now();
+        restartTimes.push(now);
+        while (restartTimes[0]! <= now - withinMs) {
+          restartTimes.shift();
+        }
+        if (restartTimes.length > maxRestarts) {
+          escalate(error);
+          return;
+        }
+
+        const indices =
+          strategy === 'one-for-one'
+            ? [index]
+            : children
+                .map((_, i) => i)
+                .filter(i => strategy === 'one-for-all' || i >= index);
+        indices.forEach(i => {
+          slots[i]!.token = undefined;
+        });
+        // Each restart finalizes the affected children before re-running them
+        queue = queue
+          .then(() => finalizeChildren(indices))
+          .then(() => {
+            if (isStopped) return;
+            indices.forEach(start);
+          });
+      };
+
+      children.forEach((_, index) => start(index));
+
+      return {
+        result: undefined,
+        finalize: (): Promise<void> => {
+          isStopped = true;
+          return queue.then(() =>
+            finalizeInOrder([...slots].reverse().map(slot => slot.finalize))
+          );
+        },
+      };
+    }).withLabel('useSupervisor')
+  );
 }
 
 export function useEffect<T>(
@@ -172,7 +675,7 @@ export function useEffect<T>(
   return use(
     new Effect<T>((addFinalizeFn, abortSignal) => {
       return maker(addFinalizeFn, abortSignal);
-    })
+    }).withLabel('useEffect')
   );
 }
 
@@ -190,7 +693,7 @@ export function useTimeout(delayMs: number): void {
           clearTimeout(timeout);
         });
       });
-    })
+    }).withLabel('useTimeout')
   );
 }
 
@@ -200,15 +703,21 @@ export function useTimeout(delayMs: number): void {
 
 export function useDerivation<T, U>(
   source: Source<T>,
-  blueprint: (val: T) => U
+  blueprint: (val: T) => U,
+  options?: DeriveOptions
 ): Source<U> {
   const userCtx = useUserContext();
   return use(
-    source.derive(v => {
-      return toRoutine(() => {
-        return blueprint(v);
-      }, userCtx);
-    })
+    source
+      .derive(v => {
+        return reportErrors(
+          toRoutine(() => {
+            return blueprint(v);
+          }, userCtx),
+          userCtx
+        );
+      }, options)
+      .withLabel('useDerivation')
   );
 }
 
@@ -217,18 +726,49 @@ export function useDerivation<T, U>(
  * The setter replaces the current value (releases old, creates new).
  * This is a convenience wrapper around Store.newCellRealm().
  */
-export function useAtom<T extends Structural>(initialValue: T): Atom<T> {
+export function useAtom<T extends Structural>(
+  initialValue: T,
+  options?: AtomOptions<T>
+): Atom<T> {
   return use(
     new Effect<Atom<T>>(addFinalizeFn => {
-      const atom = new Atom<T>(initialValue);
+      const atom = new Atom<T>(initialValue, options);
       addFinalizeFn(() => {
         atom.finalize();
       });
       return atom;
-    })
+    }).withLabel('useAtom')
   );
 }
 
+/**
+ * Focus an Atom on a part of its value.
+ * The same FocusedAtom is kept across replays of the Blueprint.
+ */
+export function useFocus<T extends Structural, const F extends FocusTarget<T>>(
+  atom: Atom<T> | FocusedAtom<T>,
+  target: ValidFocusTarget<T, F>
+): FocusedAtom<Focused<T, F>> {
+  return use(
+    new Effect<FocusedAtom<Focused<T, F>>>(() =>
+      atom.focus<F>(target)
+    ).withLabel('useFocus')
+  );
+}
+
+export function useShared<T>(source: Source<T>): Source<T> {
+  return use(
+    new Effect<Source<T>>(() => source.share()).withLabel('useShared')
+  );
+}
+
+export function useComputed<T>(
+  fn: () => T,
+  options?: AtomOptions<T>
+): ReadonlyAtom<T> {
+  return use(Source.computed(fn, options).withLabel('useComputed'));
+}
+
 /**
  * Create a multi-value portal within a
  * The setter is a Blueprint function that adds/removes values.
@@ -243,10 +783,43 @@ export function usePortal<T>(): Portal<T> {
         portal.finalize();
       });
       return portal;
-    })
+    }).withLabel('usePortal')
+  );
+}
+
+export function usePortalSnapshot<T>(
+  portal: Portal<T> | OrderedPortal<T>
+): ReadonlyAtom<T[]> {
+  return use(portal.collect().withLabel('usePortalSnapshot'));
+}
+
+export function useEach<K, V extends Structural, U>(
+  collection: Source<[K, Atom<V>]>,
+  blueprint: (key: K, item: Atom<V>) => U
+): Source<U> {
+  return useDerivation(collection, ([key, item]) => blueprint(key, item));
+}
+
+export function useOrderedPortal<T>(): OrderedPortal<T> {
+  return use(
+    new Effect<OrderedPortal<T>>(addFinalizeFn => {
+      const portal = new OrderedPortal<T>();
+      addFinalizeFn(() => {
+        portal.finalize();
+      });
+      return portal;
+    }).withLabel('useOrderedPortal')
   );
 }
 
 export function useConnection<T>(portal: Portal<T>, val: T): void {
-  return use(portal.connect(val));
+  return use(portal.connect(val).withLabel('useConnection'));
+}
+
+export function useOrderedConnection<T>(
+  portal: OrderedPortal<T>,
+  val: T,
+  position?: OrderedPosition
+): OrderedConnection {
+  return use(portal.connect(val, position).withLabel('useOrderedConnection'));
 }
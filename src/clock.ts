@@ -0,0 +1,15 @@
+/**
+ * The source of time for time-based operators. Inject a manual clock to test
+ * them deterministically.
+ */
+export type Clock = {
+  setTimeout: (callback: () => void, delayMs: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+  now: () => number;
+};
+
+export const systemClock: Clock = {
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now(),
+};
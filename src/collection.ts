@@ -0,0 +1,186 @@
+import {
+  finalizeConcurrently,
+  finalizeInBackground,
+  finalizeInOrder,
+} from './finalize';
+import { Routine } from './routine';
+import {
+  Atom,
+  AtomOptions,
+  Portal,
+  Source,
+  SourceHandlers,
+  batch,
+} from './source';
+import { Structural } from './structural';
+import { MaybePromise } from './util';
+
+type Entry<V extends Structural> = {
+  atom: Atom<V>;
+  connection: { finalize: () => MaybePromise<void> };
+};
+
+/**
+ * A keyed collection of Atoms. Subscribers get one `[key, atom]` entry per
+ * key: setting the value of a key only updates its Atom, and only adding or
+ * deleting a key connects or releases an entry.
+ */
+export class AtomMap<K, V extends Structural> extends Source<[K, Atom<V>]> {
+  private portal: Portal<[K, Atom<V>]>;
+  private entries: Map<K, Entry<V>>;
+  private options: AtomOptions<V>;
+
+  constructor(
+    initialEntries: Iterable<readonly [K, V]> = [],
+    options: AtomOptions<V> = {}
+  ) {
+    super();
+    this.portal = new Portal();
+    this.entries = new Map();
+    this.options = options;
+    for (const [key, value] of initialEntries) {
+      this.set(key, value);
+    }
+  }
+
+  public subscribe = (
+    listener: (entry: [K, Atom<V>]) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    return this.portal.subscribe(listener, handlers);
+  };
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has = (key: K): boolean => {
+    return this.entries.has(key);
+  };
+
+  public get = (key: K): V | undefined => {
+    return this.entries.get(key)?.atom.get();
+  };
+
+  public keys = (): K[] => {
+    return [...this.entries.keys()];
+  };
+
+  /** The Atom of `key`, e.g. to focus on it or to write to it directly. */
+  public atom = (key: K): Atom<V> | undefined => {
+    return this.entries.get(key)?.atom;
+  };
+
+  public set = (key: K, value: V): void => {
+    const entry = this.entries.get(key);
+    if (entry !== undefined) {
+      entry.atom.set(value);
+      return;
+    }
+    const atom = new Atom<V>(value, this.options);
+    const connection = this.portal.connect([key, atom]).initialize();
+    this.entries.set(key, { atom, connection });
+  };
+
+  public delete = (key: K): MaybePromise<void> => {
+    const entry = this.entries.get(key);
+    if (entry === undefined) return;
+    this.entries.delete(key);
+    return finalizeInOrder([
+      (): MaybePromise<void> => entry.connection.finalize(),
+      entry.atom.finalize,
+    ]);
+  };
+
+  public finalize = (): MaybePromise<void> => {
+    const keys = this.keys();
+    return finalizeInOrder([
+      (): MaybePromise<void> =>
+        finalizeConcurrently(keys.map(key => () => this.delete(key))),
+      this.portal.finalize,
+    ]);
+  };
+}
+
+/**
+ * An ordered list of Atoms, reconciled by key like AtomMap: `set` updates
+ * the Atoms of kept keys, adds new keys and releases missing ones.
+ * Subscribers get the entries in the order their keys were added.
+ */
+export class AtomList<V extends Structural, K = unknown> extends Source<
+  [K, Atom<V>]
+> {
+  private getKey: (value: V) => K;
+  private atoms: AtomMap<K, V>;
+  private order: K[];
+
+  constructor(
+    getKey: (value: V) => K,
+    initialValues: V[] = [],
+    options: AtomOptions<V> = {}
+  ) {
+    super();
+    this.getKey = getKey;
+    this.atoms = new AtomMap<K, V>([], options);
+    this.order = [];
+    this.set(initialValues);
+  }
+
+  public subscribe = (
+    listener: (entry: [K, Atom<V>]) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    return this.atoms.subscribe(listener, handlers);
+  };
+
+  public get = (): V[] => {
+    return this.order.map(key => this.atoms.get(key)!);
+  };
+
+  public keys = (): K[] => {
+    return [...this.order];
+  };
+
+  public atom = (key: K): Atom<V> | undefined => {
+    return this.atoms.atom(key);
+  };
+
+  public set = (values: V[]): void => {
+    const keyed = new Map<K, V>();
+    for (const value of values) {
+      const key = this.getKey(value);
+      if (keyed.has(key)) {
+        throw new Error(`AtomList: duplicate key ${String(key)}`);
+      }
+      keyed.set(key, value);
+    }
+    const removed = this.order.filter(key => !keyed.has(key));
+    this.order = [...keyed.keys()];
+    finalizeInBackground(() =>
+      finalizeConcurrently(
+        removed.map(key => (): MaybePromise<void> => this.atoms.delete(key))
+      )
+    );
+    // Kept keys see their new values together
+    batch(() => {
+      keyed.forEach((value, key) => this.atoms.set(key, value));
+    });
+  };
+
+  public modify = (modifier: (prevValues: V[]) => V[]): void => {
+    this.set(modifier(this.get()));
+  };
+
+  public push = (value: V): void => {
+    this.modify(values => [...values, value]);
+  };
+
+  public remove = (key: K): void => {
+    this.modify(values => values.filter(value => this.getKey(value) !== key));
+  };
+
+  public finalize = (): MaybePromise<void> => {
+    this.order = [];
+    return this.atoms.finalize();
+  };
+}
@@ -0,0 +1,35 @@
+export type Config = {
+  /**
+   * Check that every replay of a Blueprint makes the same sequence of use() calls.
+   * Costs a little bookkeeping per call, so it is off by default.
+   */
+  devMode: boolean;
+  /**
+   * Called with each error thrown by a finalizer, e.g. for logging.
+   * The error is still reported by `finalize()` as part of a `FinalizeError`.
+   */
+  onFinalizeError: ((error: unknown) => void) | undefined;
+  /**
+   * Called with each failure that nothing else handles, such as a
+   * derivation failing outside any error boundary while no subscriber of the
+   * derived Source takes errors. Logs to the console by default.
+   */
+  onUnhandledError: (error: unknown) => void;
+};
+
+const config: Config = {
+  devMode: false,
+  onFinalizeError: undefined,
+  onUnhandledError: error => console.error(error),
+};
+
+/**
+ * Update the global configuration. Omitted options keep their current value.
+ */
+export function configure(options: Partial<Config>): void {
+  Object.assign(config, options);
+}
+
+export function getConfig(): Readonly<Config> {
+  return config;
+}
@@ -0,0 +1,78 @@
+/**
+ * Thrown when a Routine does not settle before its time limit.
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Routine did not settle within ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown in dev mode when a replayed Blueprint calls use() with a different
+ * Routine than in earlier runs, e.g. because a hook is called conditionally.
+ */
+export class BlueprintOrderError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly expected: string | undefined,
+    public readonly actual: string | undefined
+  ) {
+    super(
+      `use() call #${index} changed between runs of the Blueprint: ` +
+        `expected ${expected ?? 'no call'}, got ${actual ?? 'no call'}. ` +
+        'Hooks must not be called conditionally or in a different order.'
+    );
+    this.name = 'BlueprintOrderError';
+  }
+}
+
+/**
+ * Rejects the result of a Routine that was finalized before it settled.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Routine was finalized before it settled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Thrown by `finalize()` when some finalizers failed.
+ * Every other finalizer still ran; `errors` holds each failure.
+ */
+export class FinalizeError extends AggregateError {
+  constructor(errors: unknown[]) {
+    super(errors, `${errors.length} finalizer(s) failed`);
+    this.name = 'FinalizeError';
+  }
+}
+
+/**
+ * Escalated by a supervisor when its children fail more often than allowed.
+ * `cause` holds the failure that exceeded the limit.
+ */
+export class RestartLimitError extends Error {
+  constructor(
+    public readonly maxRestarts: number,
+    public readonly withinMs: number,
+    cause: unknown
+  ) {
+    super(
+      `Supervisor exceeded ${maxRestarts} restart(s) within ${withinMs}ms`,
+      { cause }
+    );
+    this.name = 'RestartLimitError';
+  }
+}
+
+/**
+ * Ends an iteration of `source.toAsyncIterable()` whose consumer fell more
+ * than `size` values behind, when the buffer policy overflows with 'error'.
+ */
+export class BufferOverflowError extends Error {
+  constructor(public readonly size: number) {
+    super(`Buffer of ${size} value(s) overflowed`);
+    this.name = 'BufferOverflowError';
+  }
+}
@@ -0,0 +1,125 @@
+import { getConfig } from './config';
+import { FinalizeError } from './errors';
+import { MaybePromise } from './util';
+
+function collectError(errors: unknown[], error: unknown): void {
+  // Failures of nested finalizers were already reported
+  if (error instanceof FinalizeError) {
+    errors.push(...(error.errors as unknown[]));
+    return;
+  }
+  getConfig().onFinalizeError?.(error);
+  errors.push(error);
+}
+
+function throwIfFailed(errors: unknown[]): void {
+  if (errors.length > 0) {
+    throw new FinalizeError(errors);
+  }
+}
+
+/**
+ * Run finalizers one after another, waiting for asynchronous ones.
+ * A failing finalizer does not stop the next ones; all failures are thrown
+ * together as a `FinalizeError` at the end.
+ */
+export function finalizeInOrder(
+  finalizeFns: Array<() => MaybePromise<void>>
+): MaybePromise<void> {
+  const errors: unknown[] = [];
+  let chain: Promise<void> | undefined;
+
+  for (const finalizeFn of finalizeFns) {
+    if (chain) {
+      chain = chain
+        .then(() => finalizeFn())
+        .catch((error: unknown) => collectError(errors, error));
+      continue;
+    }
+    try {
+      const res = finalizeFn();
+      if (res instanceof Promise) {
+        chain = res.catch((error: unknown) => collectError(errors, error));
+      }
+    } catch (error) {
+      collectError(errors, error);
+    }
+  }
+
+  if (chain) {
+    return chain.then(() => throwIfFailed(errors));
+  }
+  throwIfFailed(errors);
+}
+
+/**
+ * Run finalizers concurrently. Like `finalizeInOrder`, every finalizer runs
+ * and all failures are thrown together as a `FinalizeError`.
+ */
+export function finalizeConcurrently(
+  finalizeFns: Array<() => MaybePromise<void>>
+): MaybePromise<void> {
+  const errors: unknown[] = [];
+  const promises: Promise<void>[] = [];
+
+  for (const finalizeFn of finalizeFns) {
+    try {
+      const res = finalizeFn();
+      if (res instanceof Promise) {
+        promises.push(
+          res.catch((error: unknown) => collectError(errors, error))
+        );
+      }
+    } catch (error) {
+      collectError(errors, error);
+    }
+  }
+
+  if (promises.length > 0) {
+    return Promise.all(promises).then(() => throwIfFailed(errors));
+  }
+  throwIfFailed(errors);
+}
+
+/**
+ * Run a finalizer nobody waits for. Its failures are reported through
+ * `onFinalizeError` instead of being thrown or left as unhandled rejections.
+ */
+export function finalizeInBackground(
+  finalizeFn: () => MaybePromise<void>
+): void {
+  const report = (error: unknown): void => {
+    // A FinalizeError was already reported failure by failure
+    if (!(error instanceof FinalizeError)) {
+      getConfig().onFinalizeError?.(error);
+    }
+  };
+  try {
+    const res = finalizeFn();
+    if (res instanceof Promise) {
+      res.catch(report);
+    }
+  } catch (error) {
+    report(error);
+  }
+}
+
+/**
+ * Run `cleanup` once `run` has finished, whether it succeeded or failed.
+ */
+export function withCleanup(
+  run: () => MaybePromise<void>,
+  cleanup: () => void
+): MaybePromise<void> {
+  let result: MaybePromise<void>;
+  try {
+    result = run();
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.finally(cleanup);
+  }
+  cleanup();
+}
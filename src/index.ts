@@ -2,6 +2,12 @@
 export * from './routine';
 export * from './source';
 export * from './blueprint';
+export * from './clock';
+export * from './collection';
+export * from './config';
+export * from './errors';
+export * from './retry';
+export * from './structural';
 
 import * as B from './blueprint';
 
@@ -30,7 +36,9 @@ export const useTimeout = B.useTimeout;
 /**
  * Creates a managed single-value state (Atom).
  * The Atom holds a value that can be updated.
+ * Updates to an equal value (deep structural equality by default) are skipped.
  * @param initialValue The initial value of the Atom.
+ * @param options Optional `equals` comparator used to skip updates.
  * @returns An Atom instance.
  */
 export const useAtom = B.useAtom;
@@ -42,6 +50,40 @@ export const useAtom = B.useAtom;
  */
 export const usePortal = B.usePortal;
 
+/**
+ * Creates a managed Portal whose values keep a stable order.
+ * @returns An OrderedPortal instance.
+ */
+export const useOrderedPortal = B.useOrderedPortal;
+
+/**
+ * Focuses an Atom on a part of its value, like `atom.focus(target)`, and keeps
+ * the same FocusedAtom across replays.
+ * @param atom The Atom (or FocusedAtom) to focus.
+ * @param target A key, a path of keys, or a custom `{ get, set }` Lens.
+ * @returns A FocusedAtom that only notifies when its part changes and writes
+ * through to the Atom.
+ */
+export const useFocus = B.useFocus;
+
+/**
+ * Shares a Source among all its subscribers, like `source.share()`, and keeps
+ * the same shared Source across replays.
+ * @param source The Source to share, e.g. an expensive `map` of an Atom.
+ * @returns A Source with a single upstream subscription, started by the first
+ * subscriber and finalized when the last one leaves.
+ */
+export const useShared = B.useShared;
+
+/**
+ * Creates a computed value that is recomputed whenever an Atom read inside
+ * `fn` through `get()` changes.
+ * @param fn Computes the value from other Atoms.
+ * @param options Optional `equals` comparator; equal results do not notify.
+ * @returns A ReadonlyAtom with the latest result.
+ */
+export const useComputed = B.useComputed;
+
 /**
  * Connects a value to a Portal.
  * The value remains connected as long as the current Blueprint scope is active.
@@ -50,11 +92,44 @@ export const usePortal = B.usePortal;
  */
 export const useConnection = B.useConnection;
 
+/**
+ * Connects a value to an OrderedPortal at a position.
+ * The value remains connected as long as the current Blueprint scope is active.
+ * @param portal The OrderedPortal to connect to.
+ * @param val The value to connect.
+ * @param position `{ order }` or `{ before: connection }`. Without it the
+ * value goes last.
+ * @returns The connection, which can `move` without being released.
+ */
+export const useOrderedConnection = B.useOrderedConnection;
+
+/**
+ * Collects the values connected to a Portal into a single snapshot.
+ * @param portal The Portal (or OrderedPortal) to collect.
+ * @returns A ReadonlyAtom with all connected values, in connection order (or
+ * the OrderedPortal's order), updated whenever a value connects or
+ * disconnects.
+ */
+export const usePortalSnapshot = B.usePortalSnapshot;
+
+/**
+ * Runs a child Blueprint for each key of a keyed collection (AtomMap,
+ * AtomList). Children are kept alive across changes of other keys and
+ * across value changes of their own key, which they observe through the
+ * item Atom.
+ * @param collection The collection to render.
+ * @param blueprint Called once per key with the key and its Atom.
+ * @returns A Source of the child Blueprints' results.
+ */
+export const useEach = B.useEach;
+
 /**
  * Derives a new Source by applying a Blueprint to each value emitted by the input Source.
  * This is similar to `switchMap` in other reactive libraries, but uses a Blueprint for the mapping logic.
  * @param source The input Source.
  * @param blueprint A function that takes a value from the source and returns a new value (or performs side effects).
+ * @param options `strategy`: when the Blueprint of a new value starts while earlier ones are still
+ * starting up or tearing down: `concurrent` (default), `switch`, `queue` or `exhaust`.
  * @returns A new Source emitting the derived values.
  */
 export const useDerivation = B.useDerivation;
@@ -67,14 +142,82 @@ export const useDerivation = B.useDerivation;
  */
 export const useAll = B.useAll;
 
+/**
+ * Runs Blueprints in parallel and returns the result of the first one to settle.
+ * The Blueprints that lose the race are finalized immediately.
+ * @param blueprints The Blueprints to race.
+ * @returns The result of the winning Blueprint.
+ */
+export const useRace = B.useRace;
+
+/**
+ * Runs Blueprints in parallel and returns the result of the first one to succeed.
+ * Throws an AggregateError if every Blueprint fails.
+ * @param blueprints The Blueprints to run.
+ * @returns The result of the first successful Blueprint.
+ */
+export const useAny = B.useAny;
+
+/**
+ * Runs Blueprints in parallel and waits for all of them to settle.
+ * @param blueprints The Blueprints to run.
+ * @returns The outcome of each Blueprint, in the shape of `Promise.allSettled`.
+ */
+export const useAllSettled = B.useAllSettled;
+
+/**
+ * Runs a Blueprint and replaces it with a fallback Blueprint when it fails.
+ * Errors thrown by the Blueprint itself and by its `useDerivation` children are caught.
+ * The failed Blueprint is finalized before the fallback starts.
+ * @param blueprint The Blueprint to guard.
+ * @param fallback A Blueprint that receives the error and runs in place of the failed one.
+ * @returns The result of the Blueprint, or of the fallback if the Blueprint failed first.
+ */
+export const useErrorBoundary = B.useErrorBoundary;
+
+/**
+ * Runs a Blueprint and runs it again after each failure, as allowed by the policy.
+ * Each failed attempt is finalized before the next one starts.
+ * @param blueprint The Blueprint to run.
+ * @param policy The RetryPolicy deciding whether and when to retry.
+ * @returns The result of the first successful attempt.
+ */
+export const useRetry = B.useRetry;
+
+/**
+ * Runs a Blueprint that must finish within a time limit.
+ * On expiry the Blueprint is finalized and a TimeoutError is thrown.
+ * Deadlines nest: an inner deadline is capped by the deadline of its parent.
+ * @param timeoutMs The time limit in milliseconds.
+ * @param blueprint The Blueprint to run.
+ * @returns The result of the Blueprint.
+ */
+export const useDeadline = B.useDeadline;
+
 /**
  * Forks a Blueprint execution into a separate Fiber (background task).
  * The forked Blueprint runs independently.
+ * It can be stopped on its own with `fiber.cancel()`; `fiber.status` and `fiber.onSettled` report its progress.
  * @param blueprint The Blueprint to fork.
  * @returns A Fiber representing the running task.
  */
 export const useFork = B.useFork;
 
+/**
+ * Runs child Blueprints in the background and restarts them when they fail.
+ * - `one-for-one`: only the failed child is restarted.
+ * - `one-for-all`: every child is restarted.
+ * - `rest-for-one`: the failed child and the children after it are restarted.
+ * The affected children are finalized before they run again. When more than
+ * `maxRestarts` restarts happen within `withinMs`, every child is finalized and
+ * a RestartLimitError is escalated to the nearest error boundary or supervisor.
+ * Without either, the RestartLimitError goes to `onUnhandledError`.
+ * @param strategy The restart strategy.
+ * @param children The child Blueprints, started in order.
+ * @param options Restart limits.
+ */
+export const useSupervisor = B.useSupervisor;
+
 /**
  * Joins a forked Fiber, waiting for its completion and returning its result.
  * @param fiber The Fiber to join.
@@ -85,6 +228,7 @@ export const useJoin = B.useJoin;
 /**
  * Converts a Blueprint function into a Routine.
  * The Routine can then be initialized and executed.
+ * The Blueprint may also be a generator function that waits for Routines with `yield*`.
  * @param blueprint The Blueprint function.
  * @returns A Routine representing the Blueprint.
  */
@@ -0,0 +1,63 @@
+export type ExponentialBackoffOptions = {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs?: number;
+  factor?: number;
+  /** Fraction of each delay (0 to 1) that is randomized away. */
+  jitter?: number;
+  random?: () => number;
+};
+
+/**
+ * Decides whether a failed attempt is retried, and how long to wait first.
+ * `delayBeforeRetry` is called after the `attempt`-th attempt (starting at 1)
+ * failed, and returns the delay in milliseconds or `undefined` to give up.
+ */
+export class RetryPolicy {
+  constructor(
+    public readonly delayBeforeRetry: (
+      error: unknown,
+      attempt: number
+    ) => number | undefined
+  ) {}
+
+  /** Only retry while `predicate` accepts the error. */
+  public when = (
+    predicate: (error: unknown, attempt: number) => boolean
+  ): RetryPolicy => {
+    return new RetryPolicy((error, attempt) =>
+      predicate(error, attempt)
+        ? this.delayBeforeRetry(error, attempt)
+        : undefined
+    );
+  };
+
+  /** Retry up to `maxRetries` times, waiting `delayMs` before each retry. */
+  public static count = (
+    maxRetries: number,
+    delayMs: number = 0
+  ): RetryPolicy => {
+    return new RetryPolicy((_error, attempt) =>
+      attempt <= maxRetries ? delayMs : undefined
+    );
+  };
+
+  /** Retry with a delay that grows by `factor` after every failed attempt. */
+  public static exponential = ({
+    maxRetries,
+    initialDelayMs,
+    maxDelayMs = Infinity,
+    factor = 2,
+    jitter = 0,
+    random = Math.random,
+  }: ExponentialBackoffOptions): RetryPolicy => {
+    return new RetryPolicy((_error, attempt) => {
+      if (attempt > maxRetries) return undefined;
+      const delayMs = Math.min(
+        initialDelayMs * factor ** (attempt - 1),
+        maxDelayMs
+      );
+      return delayMs * (1 - jitter * random());
+    });
+  };
+}
@@ -1,10 +1,112 @@
-import { MaybePromise } from './util';
+import { CancelledError, TimeoutError } from './errors';
+import {
+  finalizeConcurrently,
+  finalizeInBackground,
+  finalizeInOrder,
+} from './finalize';
+import { RetryPolicy } from './retry';
+import { MaybePromise, ignoreRejection, once, sleep } from './util';
+
+export type FiberStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
 
 export type Fiber<T> = {
   result: MaybePromise<T>;
+  readonly status: FiberStatus;
+  /**
+   * Finalize only this fiber. If it was still running, its result rejects
+   * with a `CancelledError`.
+   */
+  cancel: () => MaybePromise<void>;
+  /**
+   * Call `callback` once the fiber settles, or right away if it already has.
+   * Returns a function that removes the callback.
+   */
+  onSettled: (callback: (status: FiberStatus) => void) => () => void;
 };
 
+type Outcome<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+/**
+ * Initializes routines in order until one settles in a way `accepts` allows.
+ * Every other routine is finalized as soon as the winner is known.
+ */
+function settleFirst<T>(
+  routines: Routine<T>[],
+  accepts: (outcome: Outcome<T>) => boolean,
+  onAllRejected?: (errors: unknown[]) => unknown
+): Routine<T> {
+  return new BasicRoutine(() => {
+    const finalizes: Array<() => MaybePromise<void>> = [];
+    const results: Promise<T>[] = [];
+
+    // Failing cleanups of losers must not keep the race from settling
+    const finalizeLosers = (winner: number): void => {
+      finalizes.forEach((finalize, index) => {
+        if (index !== winner) {
+          finalizeInBackground(finalize);
+        }
+      });
+    };
+
+    for (const routine of routines) {
+      const { result, finalize } = routine.initialize();
+      finalizes.push(once(finalize));
+      if (!(result instanceof Promise)) {
+        // Settled synchronously: the remaining routines are never started
+        finalizeLosers(finalizes.length - 1);
+        return { result, finalize: () => finalizeConcurrently(finalizes) };
+      }
+      results.push(result);
+    }
+
+    const result = new Promise<T>((resolve, reject) => {
+      const errors: unknown[] = [];
+      let rejectedCount = 0;
+      let isSettled = false;
+
+      const settle = (index: number, outcome: Outcome<T>): void => {
+        if (isSettled) return;
+        if (accepts(outcome)) {
+          isSettled = true;
+          if (outcome.ok) {
+            resolve(outcome.value);
+          } else {
+            reject(outcome.error);
+          }
+          finalizeLosers(index);
+          return;
+        }
+        if (!outcome.ok) {
+          errors[index] = outcome.error;
+          rejectedCount++;
+          if (rejectedCount === results.length && onAllRejected) {
+            isSettled = true;
+            reject(onAllRejected(errors));
+          }
+        }
+      };
+
+      if (results.length === 0 && onAllRejected) {
+        isSettled = true;
+        reject(onAllRejected([]));
+      }
+
+      results.forEach((promise, index) => {
+        promise.then(
+          value => settle(index, { ok: true, value }),
+          (error: unknown) => settle(index, { ok: false, error })
+        );
+      });
+    });
+
+    return { result, finalize: () => finalizeConcurrently(finalizes) };
+  });
+}
+
 export abstract class Routine<T> {
+  /** A readable name used in dev-mode diagnostics. */
+  public label?: string;
+
   public abstract initialize: () => {
     result: MaybePromise<T>;
     finalize: () => MaybePromise<void>;
@@ -20,6 +122,22 @@ export abstract class Routine<T> {
     });
   };
 
+  /**
+   * Returns the same routine with a label, so dev-mode errors can name it.
+   */
+  public withLabel = (label: string): Routine<T> => {
+    const labeled = new BasicRoutine(this.initialize);
+    labeled.label = label;
+    return labeled;
+  };
+
+  /**
+   * Lets a generator Blueprint use the routine with `yield* routine`.
+   */
+  public *[Symbol.iterator](): Generator<Routine<T>, T, unknown> {
+    return (yield this) as T;
+  }
+
   public then = <U>(fn: (result: T) => Routine<U>): Routine<U> => {
     return new BasicRoutine(() => {
       const { result, finalize } = this.initialize();
@@ -29,8 +147,9 @@ export abstract class Routine<T> {
 
       if (result instanceof Promise) {
         innerResult = result.then(val => {
+          // Never start the continuation once finalized
           if (isFinalized) {
-            throw new Error('Routine finalized');
+            throw new CancelledError();
           }
           const inner = fn(val).initialize();
           innerFinalize = inner.finalize;
@@ -45,13 +164,9 @@ export abstract class Routine<T> {
         result: innerResult,
         finalize: (): MaybePromise<void> => {
           isFinalized = true;
-          if (innerFinalize) {
-            const res = innerFinalize();
-            if (res instanceof Promise) {
-              return res.then(finalize);
-            }
-          }
-          return finalize();
+          return finalizeInOrder(
+            innerFinalize ? [innerFinalize, finalize] : [finalize]
+          );
         },
       };
     });
@@ -84,31 +199,211 @@ export abstract class Routine<T> {
         });
         const results = initializeResults.map(result => result.result);
         const finalizes = initializeResults.map(result => result.finalize);
+        const result = results.some(result => result instanceof Promise)
+          ? (Promise.all(results) as Promise<T>)
+          : (results as T);
         return {
-          result: results.some(result => result instanceof Promise)
-            ? (Promise.all(results) as Promise<T>)
-            : (results as T),
+          result,
           finalize: (): MaybePromise<void> => {
-            const finalizeResults = finalizes.map(finalize => finalize());
-            return finalizeResults.some(result => result instanceof Promise)
-              ? Promise.all(finalizeResults).then(() => {})
-              : undefined;
+            ignoreRejection(result);
+            return finalizeConcurrently(finalizes);
           },
         };
       };
     })();
   };
 
-  public static fork = <T>(routine: Routine<T>): Routine<Fiber<T>> => {
+  /**
+   * Settles with the first routine to settle, whether it succeeds or fails.
+   * The losing routines are finalized as soon as the winner is known.
+   */
+  public static race = <T extends unknown[]>(routines: {
+    [K in keyof T]: Routine<T[K]>;
+  }): Routine<T[number]> => {
+    return settleFirst<T[number]>(routines, () => true);
+  };
+
+  /**
+   * Resolves with the first routine to succeed. The other routines are
+   * finalized as soon as it does. Rejects with an `AggregateError` when every
+   * routine fails.
+   */
+  public static any = <T extends unknown[]>(routines: {
+    [K in keyof T]: Routine<T[K]>;
+  }): Routine<T[number]> => {
+    return settleFirst<T[number]>(
+      routines,
+      outcome => outcome.ok,
+      errors => new AggregateError(errors, 'All routines were rejected')
+    );
+  };
+
+  /**
+   * Waits for every routine to settle and reports each outcome, like
+   * `Promise.allSettled`. No routine is finalized early.
+   */
+  public static allSettled = <T extends unknown[]>(routines: {
+    [K in keyof T]: Routine<T[K]>;
+  }): Routine<{ [K in keyof T]: PromiseSettledResult<T[K]> }> => {
+    return new BasicRoutine(() => {
+      const initializeResults = routines.map(routine => routine.initialize());
+      const results = initializeResults.map(
+        ({ result }): MaybePromise<PromiseSettledResult<unknown>> =>
+          result instanceof Promise
+            ? result.then(
+                value => ({ status: 'fulfilled', value }),
+                (reason: unknown) => ({ status: 'rejected', reason })
+              )
+            : { status: 'fulfilled', value: result }
+      );
+      const finalizes = initializeResults.map(result => result.finalize);
+      type Settled = { [K in keyof T]: PromiseSettledResult<T[K]> };
+      return {
+        result: results.some(result => result instanceof Promise)
+          ? (Promise.all(results) as Promise<Settled>)
+          : (results as Settled),
+        finalize: (): MaybePromise<void> => finalizeConcurrently(finalizes),
+      };
+    });
+  };
+
+  /**
+   * Re-initializes the routine after each failure, as allowed by `policy`.
+   * A failed attempt is finalized before the next one starts, and finalizing
+   * the returned routine stops any pending retry.
+   */
+  public static retry = <T>(
+    routine: Routine<T>,
+    policy: RetryPolicy
+  ): Routine<T> => {
+    return new Effect<T>(async (addFinalizeFn, abortSignal) => {
+      for (let attempt = 1; ; attempt++) {
+        let finalizeAttempt: () => MaybePromise<void> = () => {};
+        try {
+          const { result, finalize } = routine.initialize();
+          finalizeAttempt = once(finalize);
+          addFinalizeFn(finalizeAttempt);
+          return await result;
+        } catch (error) {
+          try {
+            await finalizeAttempt();
+          } catch {
+            // Reported through onFinalizeError; the policy decides on `error`
+          }
+          const delayMs = abortSignal.aborted
+            ? undefined
+            : policy.delayBeforeRetry(error, attempt);
+          if (delayMs === undefined) {
+            throw error;
+          }
+          await sleep(delayMs, abortSignal).catch(() => {
+            throw error;
+          });
+        }
+      }
+    });
+  };
+
+  /**
+   * Fails with a `TimeoutError` if the routine does not settle within `timeoutMs`.
+   * On expiry the error is surfaced right away and the routine is finalized in
+   * the background (aborting its signal if it is an Effect), so a cleanup that
+   * hangs cannot hold back the deadline.
+   */
+  public static timeout = <T>(
+    routine: Routine<T>,
+    timeoutMs: number
+  ): Routine<T> => {
     return new BasicRoutine(() => {
       const { result, finalize } = routine.initialize();
+      if (!(result instanceof Promise)) {
+        return { result, finalize };
+      }
+      const finalizeOnce = once(finalize);
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const expired = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          reject(new TimeoutError(timeoutMs));
+          finalizeInBackground(finalizeOnce);
+        }, timeoutMs);
+      });
       return {
-        result: { result },
-        finalize,
+        result: Promise.race([result, expired]).finally(() =>
+          clearTimeout(timeout)
+        ),
+        finalize: (): MaybePromise<void> => {
+          clearTimeout(timeout);
+          return finalizeOnce();
+        },
       };
     });
   };
 
+  public static fork = <T>(routine: Routine<T>): Routine<Fiber<T>> => {
+    return new BasicRoutine(() => {
+      const { result, finalize } = routine.initialize();
+      let status: FiberStatus = 'running';
+      const callbacks = new Set<(status: FiberStatus) => void>();
+      let rejectResult: (error: unknown) => void = () => {};
+
+      const settle = (nextStatus: FiberStatus): void => {
+        if (status !== 'running') return;
+        status = nextStatus;
+        callbacks.forEach(callback => callback(nextStatus));
+        callbacks.clear();
+      };
+
+      let fiberResult: MaybePromise<T>;
+      if (result instanceof Promise) {
+        fiberResult = new Promise<T>((resolve, reject) => {
+          rejectResult = reject;
+          result.then(
+            value => {
+              settle('succeeded');
+              resolve(value);
+            },
+            (error: unknown) => {
+              settle('failed');
+              reject(error);
+            }
+          );
+        });
+      } else {
+        fiberResult = result;
+        settle('succeeded');
+      }
+
+      const cancel = once((): MaybePromise<void> => {
+        if (status === 'running') {
+          settle('cancelled');
+          rejectResult(new CancelledError());
+        }
+        ignoreRejection(fiberResult);
+        return finalize();
+      });
+
+      const fiber: Fiber<T> = {
+        result: fiberResult,
+        get status(): FiberStatus {
+          return status;
+        },
+        cancel,
+        onSettled: callback => {
+          if (status !== 'running') {
+            callback(status);
+            return () => {};
+          }
+          callbacks.add(callback);
+          return () => {
+            callbacks.delete(callback);
+          };
+        },
+      };
+
+      return { result: fiber, finalize: cancel };
+    });
+  };
+
   public static join = <T>(fiber: Fiber<T>): Routine<T> => {
     return new BasicRoutine(() => {
       return {
@@ -133,7 +428,14 @@ export class BasicRoutine<T> extends Routine<T> {
     result: MaybePromise<T>;
     finalize(): MaybePromise<void>;
   } => {
-    return this.initializeFn();
+    const initialized = this.initializeFn();
+    return {
+      result: initialized.result,
+      finalize: once((): MaybePromise<void> => {
+        ignoreRejection(initialized.result);
+        return initialized.finalize();
+      }),
+    };
   };
 }
 
@@ -162,32 +464,22 @@ export class Effect<T> extends Routine<T> {
       isFinalized = true;
 
       abortController.abort();
+      ignoreRejection(result);
 
-      let chain: Promise<void> | undefined;
       // finalizeFns を逆順実行
-      for (let i = finalizeFns.length - 1; i >= 0; i--) {
-        const fn = finalizeFns[i];
-        if (!fn) continue;
-
-        if (chain) {
-          chain = chain.then(() => fn());
-        } else {
-          const res = fn();
-          if (res instanceof Promise) {
-            chain = res;
-          }
-        }
-      }
-
-      cleanupResult = chain;
+      cleanupResult = finalizeInOrder([...finalizeFns].reverse());
       return cleanupResult;
     };
 
-    return {
-      result: this.initializeFn(finalizeFn => {
-        finalizeFns.push(finalizeFn);
-      }, abortController.signal),
-      finalize,
-    };
+    const result = this.initializeFn(finalizeFn => {
+      if (isFinalized) {
+        // Registered too late: clean up right away instead of leaking
+        finalizeInBackground(finalizeFn);
+        return;
+      }
+      finalizeFns.push(finalizeFn);
+    }, abortController.signal);
+
+    return { result, finalize };
   };
 }
@@ -0,0 +1,148 @@
+import { BasicRoutine, Routine } from './routine';
+import { MaybePromise } from './util';
+
+/**
+ * How `derive` starts the Routine of a new value while the Routines of
+ * earlier values are still starting up or tearing down:
+ * - `concurrent`: start right away (the default).
+ * - `switch`: wait until released values are torn down, then start.
+ * - `queue`: start once the previous value's Routine has settled, one value
+ *   at a time, in arrival order.
+ * - `exhaust`: ignore new values while a Routine is still starting up. A
+ *   released value stops blocking, so an Atom always ends up with a Routine
+ *   for its current value.
+ */
+export type DeriveStrategy = 'concurrent' | 'switch' | 'queue' | 'exhaust';
+
+export type DeriveOptions = {
+  strategy?: DeriveStrategy;
+};
+
+type Started = {
+  result: MaybePromise<void>;
+  finalize: () => MaybePromise<void>;
+};
+
+type Scheduler = (start: () => Routine<void>) => Routine<void>;
+
+const settled = (value: MaybePromise<unknown>): Promise<void> =>
+  Promise.resolve(value).then(
+    () => {},
+    () => {}
+  );
+
+/** Start once `ready` resolves, or never if finalized before. */
+function startAfter(
+  ready: Promise<void> | undefined,
+  start: () => Routine<void>
+): Started {
+  if (ready === undefined) {
+    return start().initialize();
+  }
+  let finalized = false;
+  let started: Started | undefined;
+  const result = ready.then(() => {
+    if (finalized) return;
+    started = start().initialize();
+    return started.result;
+  });
+  return {
+    result,
+    finalize: (): MaybePromise<void> => {
+      finalized = true;
+      return started?.finalize();
+    },
+  };
+}
+
+function switchScheduler(): Scheduler {
+  const teardowns = new Set<Promise<void>>();
+  return start =>
+    new BasicRoutine(() => {
+      const pending = [...teardowns];
+      const started = startAfter(
+        pending.length > 0 ? Promise.all(pending).then(() => {}) : undefined,
+        start
+      );
+      return {
+        result: started.result,
+        finalize: (): MaybePromise<void> => {
+          const done = started.finalize();
+          if (done instanceof Promise) {
+            const teardown = settled(done);
+            teardowns.add(teardown);
+            void teardown.then(() => teardowns.delete(teardown));
+          }
+          return done;
+        },
+      };
+    });
+}
+
+function queueScheduler(): Scheduler {
+  let tail: Promise<void> | undefined;
+  return start =>
+    new BasicRoutine(() => {
+      let endTurn!: () => void;
+      const turn = new Promise<void>(resolve => {
+        endTurn = resolve;
+      });
+      const started = startAfter(tail, start);
+      tail = turn;
+      void turn.then(() => {
+        if (tail === turn) tail = undefined;
+      });
+      void settled(started.result).then(endTurn);
+      return {
+        result: started.result,
+        finalize: (): MaybePromise<void> => {
+          const done = started.finalize();
+          void settled(done).then(endTurn);
+          return done;
+        },
+      };
+    });
+}
+
+function exhaustScheduler(): Scheduler {
+  let busy = false;
+  return start =>
+    new BasicRoutine(() => {
+      if (busy) {
+        return { result: undefined, finalize: (): void => {} };
+      }
+      const started = start().initialize();
+      if (!(started.result instanceof Promise)) {
+        return started;
+      }
+      busy = true;
+      let done = false;
+      const finish = (): void => {
+        if (done) return;
+        done = true;
+        busy = false;
+      };
+      void settled(started.result).then(finish);
+      return {
+        result: started.result,
+        finalize: (): MaybePromise<void> => {
+          finish();
+          return started.finalize();
+        },
+      };
+    });
+}
+
+/** Create the scheduler for one subscription of a derived Source. */
+export function createScheduler(strategy: DeriveStrategy): Scheduler {
+  switch (strategy) {
+    case 'concurrent':
+      return start => start();
+    case 'switch':
+      return switchScheduler();
+    case 'queue':
+      return queueScheduler();
+    case 'exhaust':
+      return exhaustScheduler();
+  }
+}
@@ -1,31 +1,86 @@
 import { BiLinkMap } from './bilink-map';
-import { Routine, Effect } from './routine';
-import { Structural } from './structural';
-import { MaybePromise } from './util';
+import { Clock, systemClock } from './clock';
+import { Routine, Effect, BasicRoutine } from './routine';
+import {
+  finalizeConcurrently,
+  finalizeInBackground,
+  finalizeInOrder,
+} from './finalize';
+import {
+  Lens,
+  PathValue,
+  Structural,
+  StructuralKey,
+  ValueAt,
+  getIn,
+  setIn,
+  structuralEquals,
+} from './structural';
+import { getConfig } from './config';
+import { BufferOverflowError } from './errors';
+import { DeriveOptions, createScheduler } from './scheduler';
+import { RetryPolicy } from './retry';
+import { MaybePromise, once } from './util';
+
+export type { DeriveOptions, DeriveStrategy } from './scheduler';
+
+/**
+ * Optional notifications about a subscription as a whole. Sources that
+ * cannot complete or fail, like Atoms, may never call them.
+ */
+export type SourceHandlers = {
+  /** No more values will arrive. Values already emitted stay until released. */
+  complete?: () => void;
+  /** The Source failed, e.g. because the Routine of a listener rejected. */
+  error?: (error: unknown) => void;
+};
+
+/**
+ * How `toAsyncIterable` buffers values the consumer has not pulled yet: up to
+ * `size` values (unbounded by default). When the buffer is full, `overflow`
+ * drops the oldest value (the default), drops the new value, or ends the
+ * iteration with a `BufferOverflowError` after the buffered values.
+ */
+export type BufferPolicy = {
+  size?: number;
+  overflow?: 'drop-oldest' | 'drop-newest' | 'error';
+};
 
 export abstract class Source<T> {
   public abstract subscribe: (
-    listener: (val: T) => Routine<void>
+    listener: (val: T) => Routine<void>,
+    handlers?: SourceHandlers
   ) => Routine<void>;
 
   public map = <U>(fn: (val: T) => U): Source<U> => {
-    return new BasicSource<U>(listener =>
-      this.subscribe(val => listener(fn(val)))
+    return new BasicSource<U>((listener, handlers) =>
+      this.subscribe(val => listener(fn(val)), handlers)
     );
   };
 
+  /** Completes once both Sources completed. */
   public merge = (other: Source<T>): Source<T> => {
-    return new BasicSource<T>(listener =>
-      Routine.all([this.subscribe(listener), other.subscribe(listener)]).map(
-        () => {}
-      )
-    );
+    return new BasicSource<T>((listener, handlers) => {
+      const track = completionOf(handlers);
+      return Routine.all([
+        this.subscribe(listener, track.part()),
+        other.subscribe(listener, track.part()),
+      ]).map(() => {});
+    });
   };
 
+  /**
+   * Completes once this Source and every inner Source still subscribed to
+   * completed.
+   */
   public flatMap = <U>(fn: (val: T) => Source<U>): Source<U> => {
-    return new BasicSource<U>(listener =>
-      this.subscribe(val => fn(val).subscribe(listener))
-    );
+    return new BasicSource<U>((listener, handlers) => {
+      const track = completionOf(handlers);
+      return this.subscribe(val => {
+        const part = track.part();
+        return onFinalize(fn(val).subscribe(listener, part), part.complete);
+      }, track.part());
+    });
   };
 
   public combine = <U>(other: Source<U>): Source<[T, U]> => {
@@ -38,67 +93,1439 @@ export abstract class Source<T> {
     }
   ): Source<U> => {
     if (sources.length === 0) {
-      return new BasicSource<U>(listener => listener([] as unknown as U));
+      return Source.of([] as unknown as U);
     }
 
-    return new BasicSource<U>(listener => {
+    return new BasicSource<U>((listener, handlers) => {
+      const track = completionOf(handlers);
       const chain = (index: number, collected: unknown[]): Routine<void> => {
         if (index === sources.length) {
           return listener(collected as U);
         }
-        return sources[index]!.subscribe(val =>
-          chain(index + 1, [...collected, val])
+        const part = track.part();
+        const subscription = sources[index]!.subscribe(
+          val => chain(index + 1, [...collected, val]),
+          part
         );
+        // Unsubscribing an inner source ends it; the outermost one stays
+        return index === 0
+          ? subscription
+          : onFinalize(subscription, part.complete);
       };
       return chain(0, []);
     });
   };
 
+  /**
+   * Like `combineAll`, but with one subscription per input: when an input
+   * changes, only the combined tuple is finalized and emitted again, the
+   * subscriptions to the other inputs stay untouched. Meant for current-value
+   * sources such as Atoms; a new value of an input replaces its previous one.
+   * Emits once every input has a value, and completes once every input
+   * completed.
+   */
+  public static combineLatest = <U extends unknown[]>(
+    ...sources: {
+      [K in keyof U]: Source<U[K]>;
+    }
+  ): Source<U> => {
+    if (sources.length === 0) {
+      return Source.combineAll<U>(...sources);
+    }
+
+    return new BasicSource<U>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          const report = reportingErrors(listener, handlers);
+          const track = completionOf(handlers);
+          const latest: ({ value: unknown } | undefined)[] = sources.map(
+            () => undefined
+          );
+          let emitted: (() => MaybePromise<void>) | undefined;
+
+          const release = (): MaybePromise<void> => {
+            const finalize = emitted;
+            emitted = undefined;
+            return finalize?.();
+          };
+
+          sources.forEach((source, index) => {
+            const subscription = source
+              .subscribe(
+                value =>
+                  new Effect<void>(addFinalizeFn => {
+                    const entry = { value };
+                    // A still emitted tuple holds the previous value
+                    finalizeInBackground(release);
+                    latest[index] = entry;
+                    if (latest.every(entry => entry !== undefined)) {
+                      const values = latest.map(entry => entry!.value) as U;
+                      emitted = report(values).initialize().finalize;
+                    }
+                    addFinalizeFn(() => {
+                      if (latest[index] !== entry) return;
+                      latest[index] = undefined;
+                      return release();
+                    });
+                  }),
+                track.part()
+              )
+              .initialize();
+            addFinalizeFn(() => subscription.finalize());
+          });
+        })
+    );
+  };
+
+  /**
+   * Emit the items of `iterable`, each one until the next item arrives or the
+   * iterable ends, and then complete. Every subscription iterates anew;
+   * finalizing it stops the iteration and calls the iterator's `return()`.
+   */
+  public static fromAsyncIterable = <T>(
+    iterable: AsyncIterable<T>
+  ): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          const report = reportingErrors(listener, handlers);
+          const iterator = iterable[Symbol.asyncIterator]();
+          let current: Started | undefined;
+          let stopped = false;
+
+          const release = (): MaybePromise<void> => {
+            const item = current;
+            current = undefined;
+            return item?.finalize();
+          };
+
+          const iterate = async (): Promise<void> => {
+            for (;;) {
+              const next = await iterator.next();
+              if (stopped) return;
+              await release();
+              if (stopped) return;
+              if (next.done === true) break;
+              current = report(next.value).initialize();
+            }
+            handlers?.complete?.();
+          };
+
+          void iterate().catch(async error => {
+            if (stopped) return;
+            await release();
+            // Nothing else would notice the failure of the iteration
+            (handlers?.error ?? getConfig().onUnhandledError)(error);
+          });
+          addFinalizeFn(() => {
+            stopped = true;
+            // A pending `next()` may never settle, so don't wait for `return()`
+            void Promise.resolve(iterator.return?.()).catch(() => {});
+            return release();
+          });
+        })
+    );
+  };
+
+  /** Emit all `values`, then complete. */
   public static of = <T>(...values: T[]): Source<T> => {
-    return new BasicSource<T>(listener => {
-      return Routine.all(values.map(value => listener(value))).map(() => {});
+    return new BasicSource<T>((listener, handlers) => {
+      const report = reportingErrors(listener, handlers);
+      const all = Routine.all(values.map(value => report(value))).map(() => {});
+      return new BasicRoutine(() => {
+        const initialized = all.initialize();
+        handlers?.complete?.();
+        return initialized;
+      });
     });
   };
 
   public filter = (predicate: (val: T) => boolean): Source<T> => {
-    return new BasicSource<T>(listener =>
-      this.subscribe(val =>
-        predicate(val) ? listener(val) : Routine.resolve(undefined)
+    return new BasicSource<T>((listener, handlers) =>
+      this.subscribe(
+        val => (predicate(val) ? listener(val) : Routine.resolve(undefined)),
+        handlers
       )
     );
   };
 
-  public derive = <U>(fn: (val: T) => Routine<U>): Routine<Source<U>> => {
+  /**
+   * Emit the running accumulation of the values, starting from `seed`.
+   * Each accumulated value lives as long as the value that produced it.
+   */
+  public scan = <U>(reducer: (acc: U, val: T) => U, seed: U): Source<U> => {
+    return new BasicSource<U>((listener, handlers) => {
+      let acc = seed;
+      return this.subscribe(val => {
+        acc = reducer(acc, val);
+        return listener(acc);
+      }, handlers);
+    });
+  };
+
+  /**
+   * Emit each value together with the one that arrived before it, which may
+   * already be released. The first value is not emitted. Each pair lives as
+   * long as its newer value.
+   */
+  public pairwise = (): Source<[T, T]> => {
+    return new BasicSource<[T, T]>((listener, handlers) => {
+      let previous: { value: T } | undefined;
+      return this.subscribe(val => {
+        const before = previous;
+        previous = { value: val };
+        return before === undefined
+          ? Routine.resolve(undefined)
+          : listener([before.value, val]);
+      }, handlers);
+    });
+  };
+
+  /**
+   * Emit `value` first. It is released when the first value of this Source
+   * arrives, before that value is emitted, or when the subscription ends.
+   */
+  public startWith = (value: T): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          let initial: { finalize: () => MaybePromise<void> } | undefined =
+            reportingErrors(listener, handlers)(value).initialize();
+          const releaseInitial = (): MaybePromise<void> => {
+            const emitted = initial;
+            initial = undefined;
+            return emitted?.finalize();
+          };
+          addFinalizeFn(releaseInitial);
+          const subscription = this.subscribe(val => {
+            finalizeInBackground(releaseInitial);
+            return listener(val);
+          }, handlers).initialize();
+          addFinalizeFn(() => subscription.finalize());
+        })
+    );
+  };
+
+  /**
+   * Pair the n-th value of this Source with the n-th value of `other`.
+   * A pair lives until either of its values is released. A value released
+   * before it is paired leaves the queue without being emitted. Completes
+   * once a completed side has no queued values left to pair.
+   */
+  public zip = <U>(other: Source<U>): Source<[T, U]> => {
+    return new BasicSource<[T, U]>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          const report = reportingErrors(listener, handlers);
+          type Queued<V> = {
+            value: V;
+            pair?: () => MaybePromise<void>;
+          };
+          const lefts: Queued<T>[] = [];
+          const rights: Queued<U>[] = [];
+          let leftComplete = false;
+          let rightComplete = false;
+          let completed = false;
+          const checkComplete = (): void => {
+            if (completed) return;
+            if (
+              (leftComplete && lefts.length === 0) ||
+              (rightComplete && rights.length === 0)
+            ) {
+              completed = true;
+              handlers?.complete?.();
+            }
+          };
+
+          const enqueue = <V, W>(
+            queued: Queued<V>,
+            own: Queued<V>[],
+            others: Queued<W>[],
+            toPair: (mine: V, theirs: W) => [T, U]
+          ): void => {
+            const partner = others.shift();
+            if (partner === undefined) {
+              own.push(queued);
+              return;
+            }
+            const emitted = report(
+              toPair(queued.value, partner.value)
+            ).initialize();
+            const pair = once(() => emitted.finalize());
+            queued.pair = pair;
+            partner.pair = pair;
+            checkComplete();
+          };
+
+          const release = <V>(
+            queued: Queued<V>,
+            own: Queued<V>[]
+          ): MaybePromise<void> => {
+            if (queued.pair !== undefined) return queued.pair();
+            own.splice(own.indexOf(queued), 1);
+            checkComplete();
+          };
+
+          const leftSubscription = this.subscribe(
+            val =>
+              new Effect<void>(addFinalizeFn => {
+                const queued: Queued<T> = { value: val };
+                enqueue(queued, lefts, rights, (t, u) => [t, u]);
+                addFinalizeFn(() => release(queued, lefts));
+              }),
+            {
+              ...errorsOf(handlers),
+              complete: () => {
+                leftComplete = true;
+                checkComplete();
+              },
+            }
+          ).initialize();
+          addFinalizeFn(() => leftSubscription.finalize());
+          const rightSubscription = other
+            .subscribe(
+              val =>
+                new Effect<void>(addFinalizeFn => {
+                  const queued: Queued<U> = { value: val };
+                  enqueue(queued, rights, lefts, (u, t) => [t, u]);
+                  addFinalizeFn(() => release(queued, rights));
+                }),
+              {
+                ...errorsOf(handlers),
+                complete: () => {
+                  rightComplete = true;
+                  checkComplete();
+                },
+              }
+            )
+            .initialize();
+          addFinalizeFn(() => rightSubscription.finalize());
+        })
+    );
+  };
+
+  /**
+   * Emit each value together with the latest alive value of `other`, or not
+   * at all if `other` has none. Unlike `combine`, changes of `other` do not
+   * emit; each pair lives as long as the value of this Source. Completes
+   * with this Source; errors of `other` are forwarded.
+   */
+  public withLatestFrom = <U>(other: Source<U>): Source<[T, U]> => {
+    return new BasicSource<[T, U]>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          let latest: { value: U } | undefined;
+          const otherSubscription = other
+            .subscribe(
+              val =>
+                new Effect<void>(addFinalizeFn => {
+                  const entry = { value: val };
+                  latest = entry;
+                  addFinalizeFn(() => {
+                    if (latest === entry) latest = undefined;
+                  });
+                }),
+              errorsOf(handlers)
+            )
+            .initialize();
+          addFinalizeFn(() => otherSubscription.finalize());
+          const subscription = this.subscribe(
+            val =>
+              latest === undefined
+                ? Routine.resolve(undefined)
+                : listener([val, latest.value]),
+            handlers
+          ).initialize();
+          addFinalizeFn(() => subscription.finalize());
+        })
+    );
+  };
+
+  /**
+   * Emit each value `delayMs` later. Values released before then are dropped.
+   * Completion is delayed until the pending values are emitted or dropped.
+   */
+  public delay = (delayMs: number, clock: Clock = systemClock): Source<T> => {
+    return new BasicSource<T>((listener, handlers) => {
+      const report = reportingErrors(listener, handlers);
+      const track = completionOf(handlers);
+      return this.subscribe(
+        val =>
+          new Effect<void>(addFinalizeFn => {
+            const value = emitter(val, report, addFinalizeFn);
+            const pending = track.part();
+            const timer = clock.setTimeout(() => {
+              value.emit();
+              pending.complete();
+            }, delayMs);
+            addFinalizeFn(() => {
+              clock.clearTimeout(timer);
+              pending.complete();
+            });
+          }),
+        track.part()
+      );
+    });
+  };
+
+  /**
+   * Emit a value once no newer value arrived for `delayMs`.
+   * Values superseded before that are never emitted. Completion waits for
+   * the pending value.
+   */
+  public debounce = (
+    delayMs: number,
+    clock: Clock = systemClock
+  ): Source<T> => {
+    return new BasicSource<T>((listener, handlers) => {
+      const report = reportingErrors(listener, handlers);
+      const track = completionOf(handlers);
+      let cancelPending: (() => void) | undefined;
+      return this.subscribe(
+        val =>
+          new Effect<void>(addFinalizeFn => {
+            const value = emitter(val, report, addFinalizeFn);
+            cancelPending?.();
+            const pending = track.part();
+            const timer = clock.setTimeout(() => {
+              value.emit();
+              pending.complete();
+            }, delayMs);
+            const cancel = (): void => {
+              clock.clearTimeout(timer);
+              pending.complete();
+            };
+            cancelPending = cancel;
+            addFinalizeFn(cancel);
+          }),
+        track.part()
+      );
+    });
+  };
+
+  /**
+   * Emit a value, then drop all values arriving within the next
+   * `intervalMs`.
+   */
+  public throttle = (
+    intervalMs: number,
+    clock: Clock = systemClock
+  ): Source<T> => {
+    return new BasicSource<T>((listener, handlers) => {
+      const report = reportingErrors(listener, handlers);
+      let windowEnd: number | undefined;
+      return this.subscribe(
+        val =>
+          new Effect<void>(addFinalizeFn => {
+            const value = emitter(val, report, addFinalizeFn);
+            const now = clock.now();
+            if (windowEnd !== undefined && now < windowEnd) return;
+            windowEnd = now + intervalMs;
+            value.emit();
+          }),
+        handlers
+      );
+    });
+  };
+
+  /**
+   * When a value arrives, wait `durationMs`, then emit the latest value that
+   * arrived in the meantime. The values before it are dropped. Completion
+   * waits for the running window.
+   */
+  public auditTime = (
+    durationMs: number,
+    clock: Clock = systemClock
+  ): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          const report = reportingErrors(listener, handlers);
+          const track = completionOf(handlers);
+          let latest: Emitter | undefined;
+          let timer: unknown;
+          const subscription = this.subscribe(
+            val =>
+              new Effect<void>(addFinalizeFn => {
+                latest = emitter(val, report, addFinalizeFn);
+                if (timer !== undefined) return;
+                const current = track.part();
+                timer = clock.setTimeout(() => {
+                  timer = undefined;
+                  latest?.emit();
+                  latest = undefined;
+                  current.complete();
+                }, durationMs);
+              }),
+            track.part()
+          ).initialize();
+          addFinalizeFn(() => subscription.finalize());
+          addFinalizeFn(() => clock.clearTimeout(timer));
+        })
+    );
+  };
+
+  /**
+   * Whenever `notifier` emits, emit the latest value of this Source, unless
+   * it was already emitted. Completes with this Source; errors of `notifier`
+   * are forwarded.
+   */
+  public sample = <U>(notifier: Source<U>): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          const report = reportingErrors(listener, handlers);
+          let latest: Emitter | undefined;
+          const subscription = this.subscribe(
+            val =>
+              new Effect<void>(addFinalizeFn => {
+                latest = emitter(val, report, addFinalizeFn);
+              }),
+            handlers
+          ).initialize();
+          addFinalizeFn(() => subscription.finalize());
+          const trigger = notifier
+            .subscribe(
+              () =>
+                new Effect<void>(() => {
+                  latest?.emit();
+                  latest = undefined;
+                }),
+              errorsOf(handlers)
+            )
+            .initialize();
+          addFinalizeFn(() => trigger.finalize());
+        })
+    );
+  };
+
+  /**
+   * Multicast this Source: all subscribers share one upstream subscription,
+   * so `map`, `filter`, ... in front of it run once per value instead of once
+   * per subscriber. The upstream subscription starts with the first
+   * subscriber and is finalized when the last one leaves. Completion and
+   * errors of the upstream reach all current subscribers.
+   */
+  public share = (): Source<T> => {
+    const portal = new Portal<T>();
+    const subscribers = new Set<SourceHandlers>();
+    let refCount = 0;
+    let upstream: { finalize: () => MaybePromise<void> } | undefined;
+    let completed = false;
+
+    const release = (): MaybePromise<void> => {
+      refCount--;
+      if (refCount > 0 || upstream === undefined) return;
+      const subscription = upstream;
+      upstream = undefined;
+      return subscription.finalize();
+    };
+
+    return new BasicSource<T>(
+      (listener, handlers = {}) =>
+        new Effect<void>(addFinalizeFn => {
+          const subscription = portal
+            .subscribe(listener, errorsOf(handlers))
+            .initialize();
+          subscribers.add(handlers);
+          refCount++;
+          if (upstream === undefined) {
+            completed = false;
+            upstream = this.subscribe(val => portal.connect(val), {
+              complete: () => {
+                completed = true;
+                subscribers.forEach(subscriber => subscriber.complete?.());
+              },
+              error: error =>
+                subscribers.forEach(subscriber => subscriber.error?.(error)),
+            }).initialize();
+          } else if (completed) {
+            handlers.complete?.();
+          }
+          addFinalizeFn(() => {
+            subscribers.delete(handlers);
+            return finalizeInOrder([
+              (): MaybePromise<void> => subscription.finalize(),
+              release,
+            ]);
+          });
+        })
+    );
+  };
+
+  /**
+   * On the first error, end the subscription and continue with the Source
+   * returned by `handler`. Values of this Source are released before the
+   * fallback subscribes.
+   */
+  public catchError = (handler: (error: unknown) => Source<T>): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          let finalized = false;
+          let failure: { error: unknown } | undefined;
+          let subscribed = false;
+          let fallback: Started | undefined;
+
+          const switchToFallback = (failed: Started, error: unknown): void => {
+            afterFinalizing(failed, () => {
+              if (finalized) return;
+              fallback = handler(error)
+                .subscribe(listener, handlers)
+                .initialize();
+            });
+          };
+
+          const subscription = this.subscribe(listener, {
+            complete: () => {
+              if (failure === undefined) handlers?.complete?.();
+            },
+            error: error => {
+              if (failure !== undefined) return;
+              failure = { error };
+              // Errors during `subscribe` switch once it has returned
+              if (subscribed) switchToFallback(subscription, error);
+            },
+          }).initialize();
+          subscribed = true;
+          if (failure !== undefined) {
+            switchToFallback(subscription, failure.error);
+          }
+
+          addFinalizeFn(() => {
+            finalized = true;
+            return finalizeInOrder([
+              subscription.finalize,
+              (): MaybePromise<void> => fallback?.finalize(),
+            ]);
+          });
+        })
+    );
+  };
+
+  /**
+   * Resubscribe after an error, as allowed by `policy`. The failed
+   * subscription is finalized first. Once the policy gives up, the error is
+   * forwarded.
+   */
+  public retry = (
+    policy: RetryPolicy,
+    clock: Clock = systemClock
+  ): Source<T> => {
+    return new BasicSource<T>(
+      (listener, handlers) =>
+        new Effect<void>(addFinalizeFn => {
+          let attempt = 0;
+          let current: Started | undefined;
+          let timer: unknown;
+          let finalized = false;
+
+          const retryAfter = (failed: Started, error: unknown): void => {
+            afterFinalizing(failed, () => {
+              if (finalized) return;
+              const delayMs = policy.delayBeforeRetry(error, attempt);
+              if (delayMs === undefined) {
+                handlers?.error?.(error);
+                return;
+              }
+              timer = clock.setTimeout(start, delayMs);
+            });
+          };
+
+          const start = (): void => {
+            attempt++;
+            let failure: { error: unknown } | undefined;
+            let subscribed = false;
+            const subscription = this.subscribe(listener, {
+              complete: () => {
+                if (failure === undefined) handlers?.complete?.();
+              },
+              error: error => {
+                if (failure !== undefined || finalized) return;
+                failure = { error };
+                // Errors during `subscribe` retry once it has returned
+                if (subscribed) retryAfter(subscription, error);
+              },
+            }).initialize();
+            subscribed = true;
+            current = subscription;
+            if (failure !== undefined) retryAfter(subscription, failure.error);
+          };
+
+          start();
+          addFinalizeFn(() => {
+            finalized = true;
+            clock.clearTimeout(timer);
+            return current?.finalize();
+          });
+        })
+    );
+  };
+
+  /**
+   * Call `fn` once the subscription completes, fails or is finalized,
+   * whichever happens first.
+   */
+  public finally = (fn: () => void): Source<T> => {
+    return new BasicSource<T>((listener, handlers) => {
+      const done = once(fn);
+      return onFinalize(
+        this.subscribe(listener, {
+          complete: () => {
+            handlers?.complete?.();
+            done();
+          },
+          error: error => {
+            handlers?.error?.(error);
+            done();
+          },
+        }),
+        done
+      );
+    });
+  };
+
+  /**
+   * Skip values equal to one that is already alive.
+   * Equal values share a single downstream routine, which is finalized once
+   * none of them is alive anymore. When an equal value replaces the old one
+   * (as when an Atom is set to an equal value), the downstream routine
+   * carries over untouched.
+   */
+  public distinct = (
+    equals: (a: T, b: T) => boolean = structuralEquals
+  ): Source<T> => {
+    return new BasicSource<T>((listener, handlers) => {
+      const report = reportingErrors(listener, handlers);
+      type Entry = {
+        value: T;
+        refCount: number;
+        finalize: () => MaybePromise<void>;
+      };
+      const entries: Entry[] = [];
+
+      const release = (entry: Entry): MaybePromise<void> => {
+        const index = entries.indexOf(entry);
+        if (index === -1) return;
+        entries.splice(index, 1);
+        return entry.finalize();
+      };
+
+      const upstream = this.subscribe(
+        val =>
+          new Effect<void>(addFinalizeFn => {
+            let entry = entries.find(entry => equals(entry.value, val));
+            if (entry === undefined) {
+              // Unused entries are superseded by the new value
+              finalizeInBackground(() =>
+                finalizeConcurrently(
+                  entries
+                    .filter(entry => entry.refCount === 0)
+                    .map(entry => (): MaybePromise<void> => release(entry))
+                )
+              );
+              const { finalize } = report(val).initialize();
+              entry = { value: val, refCount: 0, finalize };
+              entries.push(entry);
+            }
+            entry.refCount++;
+
+            const current = entry;
+            addFinalizeFn(() => {
+              current.refCount--;
+              if (current.refCount > 0) return;
+              // Give an equal replacement the chance to take over first
+              queueMicrotask(() => {
+                if (current.refCount === 0) {
+                  finalizeInBackground(() => release(current));
+                }
+              });
+            });
+          }),
+        handlers
+      );
+
+      return new BasicRoutine(() => {
+        const { result, finalize } = upstream.initialize();
+        return {
+          result,
+          finalize: (): MaybePromise<void> =>
+            finalizeInOrder([
+              finalize,
+              (): MaybePromise<void> =>
+                finalizeConcurrently(
+                  [...entries].map(
+                    entry => (): MaybePromise<void> => release(entry)
+                  )
+                ),
+            ]),
+        };
+      });
+    });
+  };
+
+  /**
+   * Run `fn` for every value and collect the results in a Portal.
+   * `strategy` decides when the Routine of a new value starts while those of
+   * earlier values are still starting up or tearing down. Failures of these
+   * Routines and of this Source go to the `error` handlers of the derived
+   * Source's subscribers, or to `onUnhandledError` if none takes them.
+   */
+  public derive = <U>(
+    fn: (val: T) => Routine<U>,
+    options: DeriveOptions = {}
+  ): Routine<Source<U>> => {
     return new Effect(addFinalizeFn => {
       const portal = new Portal<U>();
       addFinalizeFn(() => portal.finalize());
       return portal;
-    }).then(portal =>
-      this.subscribe(val => fn(val).then(u => portal.connect(u))).map(
-        () => portal
-      )
-    );
+    }).then(portal => {
+      const schedule = createScheduler(options.strategy ?? 'concurrent');
+      const subscribers = new Set<SourceHandlers>();
+      const derived = new BasicSource<U>(
+        (listener, handlers = {}) =>
+          new Effect<void>(addFinalizeFn => {
+            const subscription = portal
+              .subscribe(listener, handlers)
+              .initialize();
+            subscribers.add(handlers);
+            addFinalizeFn(() => {
+              subscribers.delete(handlers);
+              return subscription.finalize();
+            });
+          })
+      );
+      const fail = (error: unknown): void => {
+        const onErrors = [...subscribers].flatMap(handlers =>
+          handlers.error === undefined ? [] : [handlers.error]
+        );
+        if (onErrors.length === 0) {
+          getConfig().onUnhandledError(error);
+        }
+        onErrors.forEach(onError => onError(error));
+      };
+      return this.subscribe(
+        val => schedule(() => fn(val).then(u => portal.connect(u))),
+        { error: fail }
+      ).map(() => derived);
+    });
+  };
+
+  /**
+   * Materialize this Source into an Atom-like value: it holds `initial` until
+   * the first value arrives, and then always the latest one, even after that
+   * value is released. Updates follow the Atom equality rules (`options`).
+   * Finalizing the Routine ends the subscription.
+   */
+  public hold = (
+    initial: T,
+    options?: AtomOptions<T>
+  ): Routine<ReadonlyAtom<T>> => {
+    return new Effect(addFinalizeFn => {
+      const atom = new Cell(initial, options);
+      const subscription = this.subscribe(
+        val =>
+          new Effect<void>(() => {
+            atom.set(val);
+          })
+      ).initialize();
+      addFinalizeFn(() =>
+        finalizeInOrder([
+          (): MaybePromise<void> => subscription.finalize(),
+          atom.finalize,
+        ])
+      );
+      return atom;
+    });
+  };
+
+  /**
+   * Fold all currently alive values into one value, e.g. a count or a sum.
+   * It is recomputed from `init` whenever a value arrives or is released.
+   * Finalizing the Routine ends the subscription.
+   */
+  public reduce = <U>(
+    fn: (acc: U, val: T) => U,
+    init: U,
+    options?: AtomOptions<U>
+  ): Routine<ReadonlyAtom<U>> => {
+    return new Effect(addFinalizeFn => {
+      const alive: { value: T }[] = [];
+      const atom = new Cell(init, options);
+      let finalizing = false;
+
+      const update = (): void => {
+        if (finalizing) return;
+        atom.set(alive.reduce((acc, entry) => fn(acc, entry.value), init));
+      };
+
+      const subscription = this.subscribe(
+        val =>
+          new Effect<void>(addFinalizeFn => {
+            const entry = { value: val };
+            alive.push(entry);
+            update();
+            addFinalizeFn(() => {
+              alive.splice(alive.indexOf(entry), 1);
+              update();
+            });
+          })
+      ).initialize();
+
+      addFinalizeFn(atom.finalize);
+      addFinalizeFn(() => {
+        finalizing = true;
+        return subscription.finalize();
+      });
+      return atom;
+    });
+  };
+
+  /**
+   * Pull the values of this Source with `for await`. The subscription starts
+   * with the first `next()`, and values wait in a buffer governed by
+   * `buffer` until they are pulled. Iteration ends when this Source
+   * completes, and throws when it fails. `return()`, e.g. through `break`,
+   * finalizes the subscription.
+   */
+  public toAsyncIterable = (
+    buffer: BufferPolicy = {}
+  ): AsyncIterableIterator<T> => {
+    const { size = Infinity, overflow = 'drop-oldest' } = buffer;
+    type Waiting = {
+      resolve: (result: IteratorResult<T>) => void;
+      reject: (error: unknown) => void;
+    };
+    const values: T[] = [];
+    const waiting: Waiting[] = [];
+    let ended: { error: unknown } | 'complete' | undefined;
+    let started = false;
+    let subscription: Started | undefined;
+
+    const close = (): MaybePromise<void> => {
+      started = true;
+      const current = subscription;
+      subscription = undefined;
+      return current?.finalize();
+    };
+
+    const flush = (): void => {
+      while (waiting.length > 0) {
+        const next = waiting[0]!;
+        if (values.length > 0) {
+          next.resolve({ value: values.shift() as T, done: false });
+        } else if (ended === undefined) {
+          return;
+        } else if (ended === 'complete') {
+          next.resolve({ value: undefined, done: true });
+        } else {
+          next.reject(ended.error);
+          ended = 'complete';
+        }
+        waiting.shift();
+      }
+    };
+
+    const end = (result: { error: unknown } | 'complete'): void => {
+      if (ended !== undefined) return;
+      ended = result;
+      finalizeInBackground(close);
+      flush();
+    };
+
+    const push = (val: T): void => {
+      if (ended !== undefined) return;
+      if (values.length >= size) {
+        if (overflow === 'drop-newest') return;
+        if (overflow === 'error') {
+          end({ error: new BufferOverflowError(size) });
+          return;
+        }
+        values.shift();
+      }
+      values.push(val);
+      flush();
+    };
+
+    const start = (): void => {
+      if (started) return;
+      started = true;
+      const initialized = this.subscribe(
+        val =>
+          new Effect<void>(() => {
+            push(val);
+          }),
+        {
+          complete: () => end('complete'),
+          error: error => end({ error }),
+        }
+      ).initialize();
+      if (ended === undefined) {
+        subscription = initialized;
+      } else {
+        finalizeInBackground(initialized.finalize);
+      }
+    };
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: (): Promise<IteratorResult<T>> => {
+        start();
+        return new Promise((resolve, reject) => {
+          waiting.push({ resolve, reject });
+          flush();
+        });
+      },
+      return: async (): Promise<IteratorResult<T>> => {
+        values.length = 0;
+        ended = 'complete';
+        flush();
+        await close();
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]: (): AsyncIterableIterator<T> => iterator,
+    };
+    return iterator;
+  };
+
+  /**
+   * A snapshot of all currently alive values, in the order they arrived,
+   * e.g. everything connected to a Portal.
+   */
+  public collect = (): Routine<ReadonlyAtom<T[]>> => {
+    return this.reduce<T[]>((all, val) => [...all, val], []);
+  };
+
+  /**
+   * A computed value: runs `fn` and runs it again whenever an Atom it read
+   * through `get()` changes. The Atoms read are tracked on every run, so the
+   * dependencies may change over time. If a rerun throws, the previous value
+   * is kept and the error goes to `onUnhandledError`.
+   */
+  public static computed = <T>(
+    fn: () => T,
+    options?: AtomOptions<T>
+  ): Routine<ReadonlyAtom<T>> => {
+    return new Effect(addFinalizeFn => {
+      const dependencies = new Map<Dependency, () => MaybePromise<void>>();
+      let finalized = false;
+
+      const track = (): { value: T; sources: Set<Dependency> } => {
+        const outer = trackedSources;
+        const sources = new Set<Dependency>();
+        trackedSources = sources;
+        try {
+          return { value: fn(), sources };
+        } finally {
+          trackedSources = outer;
+        }
+      };
+
+      const first = track();
+      const atom = new Cell(first.value, options);
+
+      let usedSources = first.sources;
+
+      const recompute = (): void => {
+        if (finalized) return;
+        let tracked: { value: T; sources: Set<Dependency> };
+        try {
+          tracked = track();
+        } catch (error) {
+          // The Atom that changed must not fail for its other subscribers
+          getConfig().onUnhandledError(error);
+          return;
+        }
+        const { value, sources } = tracked;
+        usedSources = sources;
+        subscribeToNew();
+        atom.set(value);
+      };
+
+      const subscribeToNew = (): void => {
+        for (const source of usedSources) {
+          if (dependencies.has(source)) continue;
+          let subscribing = true;
+          const subscription = source
+            .subscribe(
+              () =>
+                new Effect<void>(() => {
+                  if (!subscribing) recompute();
+                })
+            )
+            .initialize();
+          subscribing = false;
+          dependencies.set(source, () => subscription.finalize());
+        }
+        // Unsubscribing while a dependency is notifying its subscribers would
+        // interfere with that notification; until then, changes of unused
+        // dependencies only cause a redundant recompute
+        if (dependencies.size > usedSources.size) {
+          queueMicrotask(unsubscribeFromUnused);
+        }
+      };
+
+      const unsubscribeFromUnused = (): void => {
+        if (finalized) return;
+        for (const [source, finalize] of [...dependencies]) {
+          if (!usedSources.has(source)) {
+            dependencies.delete(source);
+            finalizeInBackground(finalize);
+          }
+        }
+      };
+
+      subscribeToNew();
+      // Finalizers run in reverse: dependencies first, then the Atom
+      addFinalizeFn(atom.finalize);
+      addFinalizeFn(() => {
+        finalized = true;
+        return finalizeConcurrently([...dependencies.values()]);
+      });
+      return atom;
+    });
   };
 }
 
 export class BasicSource<T> extends Source<T> {
   constructor(
-    private subscribeFn: (listener: (val: T) => Routine<void>) => Routine<void>
+    private subscribeFn: (
+      listener: (val: T) => Routine<void>,
+      handlers?: SourceHandlers
+    ) => Routine<void>
   ) {
     super();
   }
 
-  public subscribe = (listener: (val: T) => Routine<void>): Routine<void> => {
-    return this.subscribeFn(listener);
+  public subscribe = (
+    listener: (val: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    return this.subscribeFn(listener, handlers);
   };
 }
 
-export class Atom<T extends Structural> extends Source<T> {
+/**
+ * Report rejected listener Routines to `handlers.error`, unless the Routine
+ * was already finalized.
+ */
+function reportingErrors<T>(
+  listener: (val: T) => Routine<void>,
+  handlers: SourceHandlers | undefined
+): (val: T) => Routine<void> {
+  const onError = handlers?.error;
+  if (onError === undefined) return listener;
+  return val =>
+    new BasicRoutine(() => {
+      const { result, finalize } = listener(val).initialize();
+      let finalized = false;
+      if (result instanceof Promise) {
+        result.catch(error => {
+          if (!finalized) onError(error);
+        });
+      }
+      return {
+        result,
+        finalize: (): MaybePromise<void> => {
+          finalized = true;
+          return finalize();
+        },
+      };
+    });
+}
+
+/** Forward only the errors of a subscription. */
+function errorsOf(handlers: SourceHandlers | undefined): SourceHandlers {
+  return handlers?.error === undefined ? {} : { error: handlers.error };
+}
+
+type Completion = {
+  /** Handlers for one part; complete once every part completed. */
+  part: () => SourceHandlers & { complete: () => void };
+};
+
+/** Complete `handlers` once all parts of a combined subscription complete. */
+function completionOf(handlers: SourceHandlers | undefined): Completion {
+  let pending = 0;
+  return {
+    part: (): SourceHandlers & { complete: () => void } => {
+      pending++;
+      return {
+        ...errorsOf(handlers),
+        complete: once(() => {
+          pending--;
+          if (pending === 0) handlers?.complete?.();
+        }),
+      };
+    },
+  };
+}
+
+/** Call `fn` after `routine` is finalized. */
+function onFinalize(routine: Routine<void>, fn: () => void): Routine<void> {
+  return new BasicRoutine(() => {
+    const { result, finalize } = routine.initialize();
+    return {
+      result,
+      finalize: (): MaybePromise<void> =>
+        finalizeInOrder([finalize, (): void => fn()]),
+    };
+  });
+}
+
+type Started = { finalize: () => MaybePromise<void> };
+
+/**
+ * Finalize a failed subscription, then call `next`, even if its cleanup
+ * failed (that is reported through onFinalizeError).
+ */
+function afterFinalizing(failed: Started, next: () => void): void {
+  let teardown: MaybePromise<void>;
+  try {
+    teardown = finalizeInOrder([failed.finalize]);
+  } catch {
+    teardown = undefined;
+  }
+  if (teardown instanceof Promise) {
+    teardown.then(next, next);
+  } else {
+    next();
+  }
+}
+
+type Emitter = { emit: () => void };
+
+/**
+ * Track an upstream value for an operator that emits it later, or never.
+ * Once emitted, it stays downstream until the upstream value is released.
+ */
+function emitter<T>(
+  val: T,
+  listener: (val: T) => Routine<void>,
+  addFinalizeFn: (finalizeFn: () => MaybePromise<void>) => void
+): Emitter {
+  let released = false;
+  let emitted: { finalize: () => MaybePromise<void> } | undefined;
+  addFinalizeFn(() => {
+    released = true;
+    return emitted?.finalize();
+  });
+  return {
+    emit: (): void => {
+      if (released || emitted !== undefined) return;
+      emitted = listener(val).initialize();
+    },
+  };
+}
+
+type Dependency = {
+  subscribe: (listener: () => Routine<void>) => Routine<void>;
+};
+
+// Atoms read through `get()` by the running `Source.computed` function
+let trackedSources: Set<Dependency> | undefined;
+
+/**
+ * A read-only view of a value that changes over time, such as an Atom.
+ * It can be subscribed to and read synchronously, but not written.
+ */
+export type ReadonlyAtom<T> = Source<T> & {
+  get: () => T;
+};
+
+/**
+ * What `focus` can narrow a value down to: a key, a path of keys, or a custom
+ * Lens.
+ */
+export type FocusTarget<T> =
+  | StructuralKey<T>
+  | readonly PropertyKey[]
+  | Lens<T, unknown>;
+
+/** The type of the part of `T` that `F` focuses on. */
+export type Focused<T, F> =
+  F extends Lens<T, infer Part>
+    ? Part
+    : F extends readonly unknown[]
+      ? PathValue<T, F>
+      : ValueAt<T, F>;
+
+/** Rejects targets, such as invalid paths, that focus on nothing. */
+export type ValidFocusTarget<T, F> = [Focused<T, F>] extends [never]
+  ? never
+  : F;
+
+type Focusable<T> = ReadonlyAtom<T> & {
+  modify: (modifier: (prevValue: T) => T) => void;
+};
+
+function toLens<T>(target: FocusTarget<T>): Lens<T, unknown> {
+  if (typeof target === 'object' && !Array.isArray(target)) {
+    return target as Lens<T, unknown>;
+  }
+  const path: readonly PropertyKey[] = Array.isArray(target)
+    ? target
+    : [target];
+  return {
+    get: whole => getIn(whole, path),
+    set: (whole, part) => setIn(whole, path, part),
+  };
+}
+
+function focusOn<T, F extends FocusTarget<T>>(
+  parent: Focusable<T>,
+  target: F
+): FocusedAtom<Focused<T, F>> {
+  type Part = Focused<T, F>;
+  const lens = toLens(target) as Lens<T, Part>;
+  return new FocusedAtom<Part>(
+    () => lens.get(parent.get()),
+    modifier =>
+      parent.modify(whole => lens.set(whole, modifier(lens.get(whole)))),
+    parent.map(whole => lens.get(whole)).distinct()
+  );
+}
+
+/**
+ * A writable view of a part of an Atom, created with `atom.focus(...)`.
+ * Subscribers only see changes of that part. Writes update the Atom
+ * immutably through its `modify`.
+ */
+export class FocusedAtom<T> extends Source<T> {
+  private read: () => T;
+  private write: (modifier: (prevValue: T) => T) => void;
+  private slice: Source<T>;
+
+  constructor(
+    read: () => T,
+    write: (modifier: (prevValue: T) => T) => void,
+    slice: Source<T>
+  ) {
+    super();
+    this.read = read;
+    this.write = write;
+    this.slice = slice;
+  }
+
+  public subscribe = (
+    listener: (value: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    return this.slice.subscribe(listener, handlers);
+  };
+
+  public get = (): T => {
+    return this.read();
+  };
+
+  public modify = (modifier: (prevValue: T) => T): void => {
+    this.write(modifier);
+  };
+
+  public set = (newValue: T): void => {
+    this.modify(() => newValue);
+  };
+
+  public focus = <const F extends FocusTarget<T>>(
+    target: ValidFocusTarget<T, F>
+  ): FocusedAtom<Focused<T, F>> => {
+    return focusOn<T, F>(this, target);
+  };
+}
+
+export type AtomOptions<T> = {
+  /**
+   * Decides whether a new value is the same as the current one, in which case
+   * the update is skipped. Defaults to deep structural equality.
+   */
+  equals?: (a: T, b: T) => boolean;
+};
+
+/** A pending Atom update, applied when the batch it was made in ends. */
+type PendingUpdate = {
+  /** Whether the pending value differs from the current one. */
+  changed: () => boolean;
+  /** Finalize everything linked to the current value. */
+  release: () => MaybePromise<void>;
+  /** Make the pending value current and link it. */
+  apply: () => void;
+  discard: () => void;
+};
+
+let batchedUpdates: Map<object, PendingUpdate> | undefined;
+
+function commitUpdates(updates: PendingUpdate[]): void {
+  const changed = updates.filter(update => update.changed());
+  updates
+    .filter(update => !changed.includes(update))
+    .forEach(update => update.discard());
+  // A failing cleanup of an old value must not block the new ones
+  finalizeInBackground(() =>
+    finalizeConcurrently(changed.map(update => update.release))
+  );
+  changed.forEach(update => update.apply());
+}
+
+/**
+ * Run `fn` and update all Atoms it sets at once when it returns.
+ * Until then `get()` already returns the new values, but subscribers keep
+ * seeing the old ones. At the end, everything linked to the old values is
+ * finalized first and only then are the new values linked, so derivations of
+ * several Atoms (e.g. with `Source.combineAll`) run once, with all new values.
+ * If `fn` throws, its updates are discarded. Nested batches join the
+ * outermost one. `fn` must be synchronous.
+ */
+export function batch<R>(fn: () => R): R {
+  if (batchedUpdates !== undefined) {
+    return fn();
+  }
+  const updates = new Map<object, PendingUpdate>();
+  batchedUpdates = updates;
+  let result: R;
+  try {
+    result = fn();
+  } catch (error) {
+    updates.forEach(update => update.discard());
+    throw error;
+  } finally {
+    batchedUpdates = undefined;
+  }
+  commitUpdates([...updates.values()]);
+  return result;
+}
+
+/**
+ * The value cell behind Atoms. Unlike an Atom it holds values of any type,
+ * so Sources can materialize values that are not Structural (`hold`,
+ * `reduce`, `computed`, snapshots).
+ */
+class Cell<T> extends Source<T> {
   private biLinks: BiLinkMap<{ value: T }, (value: T) => Routine<void>>;
   private currentValue: { value: T };
+  private pendingValue: { value: T } | undefined;
+  private equals: (a: T, b: T) => boolean;
+
+  private pendingUpdate: PendingUpdate = {
+    changed: () =>
+      this.pendingValue !== undefined &&
+      !this.equals(this.pendingValue.value, this.currentValue.value),
+    release: () => this.biLinks.unlinkAllA(this.currentValue),
+    apply: () => {
+      if (this.pendingValue === undefined) return;
+      const newValue = this.pendingValue.value;
+      this.currentValue = this.pendingValue;
+      this.pendingValue = undefined;
+      this.biLinks.linkAllA(this.currentValue, valToRoutine =>
+        valToRoutine(newValue)
+      );
+    },
+    discard: () => {
+      this.pendingValue = undefined;
+    },
+  };
 
-  constructor(value: T) {
+  constructor(value: T, options: AtomOptions<T> = {}) {
     super();
+    this.equals = options.equals ?? structuralEquals;
     this.currentValue = { value };
     this.biLinks = new BiLinkMap();
     this.biLinks.linkAllA(this.currentValue, valToRoutine =>
@@ -106,25 +1533,33 @@ export class Atom<T extends Structural> extends Source<T> {
     );
   }
 
-  public subscribe = (listener: (value: T) => Routine<void>): Routine<void> => {
+  /** Cells never complete; `handlers.error` receives listener failures. */
+  public subscribe = (
+    listener: (value: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    const reporting = reportingErrors(listener, handlers);
     return new Effect(addFinalizeFn => {
-      this.biLinks.linkAllB(listener, val => listener(val.value));
+      this.biLinks.linkAllB(reporting, val => reporting(val.value));
       addFinalizeFn(() => {
-        return this.biLinks.unlinkAllB(listener);
+        return this.biLinks.unlinkAllB(reporting);
       });
     });
   };
 
+  /** Read the current value without subscribing. */
+  public get = (): T => {
+    trackedSources?.add(this);
+    return (this.pendingValue ?? this.currentValue).value;
+  };
+
   public modify = (modifier: (prevValue: T) => T): void => {
-    const newValue = modifier(this.currentValue.value);
-    if (newValue === this.currentValue.value) {
+    this.pendingValue = { value: modifier(this.get()) };
+    if (batchedUpdates !== undefined) {
+      batchedUpdates.set(this, this.pendingUpdate);
       return;
     }
-    this.biLinks.unlinkAllA(this.currentValue);
-    this.currentValue = { value: newValue };
-    this.biLinks.linkAllA(this.currentValue, valToRoutine =>
-      valToRoutine(newValue)
-    );
+    commitUpdates([this.pendingUpdate]);
   };
 
   public set = (newValue: T): void => {
@@ -132,10 +1567,55 @@ export class Atom<T extends Structural> extends Source<T> {
   };
 
   public finalize = (): MaybePromise<void> => {
+    this.pendingValue = undefined;
     return this.biLinks.unlinkAllA(this.currentValue);
   };
 }
 
+export class Atom<T extends Structural> extends Source<T> {
+  private cell: Cell<T>;
+
+  constructor(value: T, options: AtomOptions<T> = {}) {
+    super();
+    this.cell = new Cell(value, options);
+  }
+
+  /** Atoms never complete; `handlers.error` receives listener failures. */
+  public subscribe = (
+    listener: (value: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    return this.cell.subscribe(listener, handlers);
+  };
+
+  /** Read the current value without subscribing. */
+  public get = (): T => {
+    return this.cell.get();
+  };
+
+  public modify = (modifier: (prevValue: T) => T): void => {
+    this.cell.modify(modifier);
+  };
+
+  public set = (newValue: T): void => {
+    this.modify(() => newValue);
+  };
+
+  /**
+   * Focus on a part of the value: a key (`'settings'`), a path
+   * (`['items', 3, 'name']`) or a custom `{ get, set }` Lens.
+   */
+  public focus = <const F extends FocusTarget<T>>(
+    target: ValidFocusTarget<T, F>
+  ): FocusedAtom<Focused<T, F>> => {
+    return focusOn<T, F>(this, target);
+  };
+
+  public finalize = (): MaybePromise<void> => {
+    return this.cell.finalize();
+  };
+}
+
 export class Portal<T> extends Source<T> {
   private biLinks: BiLinkMap<{ value: T }, (value: T) => Routine<void>>;
 
@@ -144,11 +1624,15 @@ export class Portal<T> extends Source<T> {
     this.biLinks = new BiLinkMap();
   }
 
-  public subscribe = (callback: (val: T) => Routine<void>): Routine<void> => {
+  public subscribe = (
+    callback: (val: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    const reporting = reportingErrors(callback, handlers);
     return new Effect(addFinalizeFn => {
-      this.biLinks.linkAllB(callback, val => callback(val.value));
+      this.biLinks.linkAllB(reporting, val => reporting(val.value));
       addFinalizeFn(() => {
-        return this.biLinks.unlinkAllB(callback);
+        return this.biLinks.unlinkAllB(reporting);
       });
     });
   };
@@ -167,3 +1651,156 @@ export class Portal<T> extends Source<T> {
     return this.biLinks.unlinkAll();
   };
 }
+
+/**
+ * Where a value sits in an OrderedPortal: at a sort key, or right before
+ * another connection. Values without a position go after all others.
+ */
+export type OrderedPosition = { order: number } | { before: OrderedConnection };
+
+/** A value connected to an OrderedPortal. */
+export type OrderedConnection = {
+  /** Move the value to a new position, without releasing it. */
+  move: (position: OrderedPosition) => void;
+};
+
+type Slot<T> = { value: T; order: number; sequence: number };
+
+const compareSlots = <T>(x: Slot<T>, y: Slot<T>): number =>
+  x.order - y.order || x.sequence - y.sequence;
+
+/**
+ * A Portal whose values have a stable order, e.g. menu items or toolbar
+ * buttons. New subscribers and snapshots (`collect()`) see the values in that
+ * order. Moving a value keeps it linked; only snapshots are updated.
+ */
+export class OrderedPortal<T> extends Source<T> {
+  private biLinks: BiLinkMap<Slot<T>, (value: T) => Routine<void>>;
+  private slots: Slot<T>[];
+  private slotOf: WeakMap<OrderedConnection, Slot<T>>;
+  private snapshots: Set<Cell<T[]>>;
+  private nextSequence: number;
+
+  constructor() {
+    super();
+    this.biLinks = new BiLinkMap();
+    this.slots = [];
+    this.slotOf = new WeakMap();
+    this.snapshots = new Set();
+    this.nextSequence = 0;
+  }
+
+  public subscribe = (
+    callback: (val: T) => Routine<void>,
+    handlers?: SourceHandlers
+  ): Routine<void> => {
+    const reporting = reportingErrors(callback, handlers);
+    return new Effect(addFinalizeFn => {
+      this.biLinks.linkAllB(
+        reporting,
+        slot => reporting(slot.value),
+        compareSlots
+      );
+      addFinalizeFn(() => {
+        return this.biLinks.unlinkAllB(reporting);
+      });
+    });
+  };
+
+  /** The connected values, in order. */
+  public values = (): T[] => {
+    return this.slots.map(slot => slot.value);
+  };
+
+  public connect(
+    value: T,
+    position?: OrderedPosition
+  ): Routine<OrderedConnection> {
+    return new Effect(addFinalizeFn => {
+      const slot: Slot<T> = {
+        value,
+        order: 0,
+        sequence: this.nextSequence++,
+      };
+      const connection: OrderedConnection = {
+        move: position => {
+          if (!this.slots.includes(slot)) return;
+          this.place(slot, position);
+        },
+      };
+      this.slotOf.set(connection, slot);
+      this.place(slot, position);
+      addFinalizeFn(() => {
+        this.slots = this.slots.filter(other => other !== slot);
+        this.updateSnapshots();
+        return this.biLinks.unlinkAllA(slot);
+      });
+      this.biLinks.linkAllA(slot, valToRoutine => valToRoutine(value));
+      return connection;
+    });
+  }
+
+  /**
+   * A snapshot of the connected values in order, updated whenever a value
+   * connects, disconnects or moves.
+   */
+  public collect = (): Routine<ReadonlyAtom<T[]>> => {
+    return new Effect(addFinalizeFn => {
+      const snapshot = new Cell(this.values());
+      this.snapshots.add(snapshot);
+      addFinalizeFn(() => {
+        this.snapshots.delete(snapshot);
+        return snapshot.finalize();
+      });
+      return snapshot;
+    });
+  };
+
+  public finalize = (): MaybePromise<void> => {
+    this.slots = [];
+    return this.biLinks.unlinkAll();
+  };
+
+  private place = (slot: Slot<T>, position?: OrderedPosition): void => {
+    const others = this.slots.filter(other => other !== slot);
+    slot.order = this.orderFor(others, position);
+    this.slots = [...others, slot].sort(compareSlots);
+    this.updateSnapshots();
+  };
+
+  private orderFor = (
+    others: Slot<T>[],
+    position?: OrderedPosition
+  ): number => {
+    if (position === undefined) {
+      const last = others[others.length - 1];
+      return last === undefined ? 0 : last.order + 1;
+    }
+    if ('order' in position) {
+      return position.order;
+    }
+    const anchor = this.slotOf.get(position.before);
+    const index = anchor === undefined ? -1 : others.indexOf(anchor);
+    if (anchor === undefined || index === -1) {
+      throw new Error('OrderedPortal: the anchor is not connected here');
+    }
+    const previous = others[index - 1];
+    if (previous === undefined) {
+      return anchor.order - 1;
+    }
+    const order = (previous.order + anchor.order) / 2;
+    if (order > previous.order && order < anchor.order) {
+      return order;
+    }
+    // No room left between the two: spread out all sort keys
+    others.forEach((other, i) => {
+      other.order = i;
+    });
+    return index - 0.5;
+  };
+
+  private updateSnapshots = (): void => {
+    const values = this.values();
+    this.snapshots.forEach(snapshot => snapshot.set(values));
+  };
+}
@@ -7,4 +7,121 @@ type Structural =
   | Structural[]
   | { [key: string]: Structural };
 
-export { Structural };
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Deep equality for Structural values: arrays and plain objects are compared
+ * by contents, everything else with `Object.is`.
+ */
+function structuralEquals(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a)) {
+    return (
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => structuralEquals(item, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => key in b && structuralEquals(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/** A valid key of `T`: an index of an array or a property of an object. */
+type StructuralKey<T> = [T] extends [readonly unknown[]]
+  ? number
+  : [T] extends [object]
+    ? keyof T & string
+    : never;
+
+/**
+ * The value found at `key` of `T`. Items of arrays may be missing, so they
+ * include `undefined`.
+ */
+type ValueAt<T, K> = [T] extends [readonly (infer Item)[]]
+  ? Item | undefined
+  : K extends keyof T
+    ? T[K]
+    : never;
+
+/**
+ * The value found by following `P` into `T`, or `never` for invalid paths.
+ * Once a step may be missing, so is the rest of the path.
+ */
+type PathValue<T, P extends readonly unknown[]> = P extends readonly [
+  infer Key,
+  ...infer Rest,
+]
+  ? Key extends StructuralKey<Exclude<T, undefined>>
+    ? PathValue<
+        ValueAt<Exclude<T, undefined>, Key> | Extract<T, undefined>,
+        Rest
+      >
+    : never
+  : T;
+
+/**
+ * A getter/setter pair that focuses on a part `A` of a whole `S`.
+ * `set` returns an updated copy of the whole and never mutates it.
+ */
+type Lens<S, A> = {
+  get(whole: S): A;
+  set(whole: S, part: A): S;
+};
+
+/** The value at `path`, or `undefined` if a step along the path is missing. */
+function getIn(value: unknown, path: readonly PropertyKey[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      current === undefined || current === null
+        ? undefined
+        : (current as Record<PropertyKey, unknown>)[key],
+    value
+  );
+}
+
+/**
+ * Return a copy of `value` with `part` at `path`.
+ * Only the arrays and objects along the path are copied; if `part` is already
+ * there, `value` itself is returned. Missing steps along the path are created:
+ * an array for a numeric key, an object otherwise.
+ */
+function setIn<T>(value: T, path: readonly PropertyKey[], part: unknown): T {
+  if (path.length === 0) {
+    return part as T;
+  }
+  const [key, ...rest] = path as readonly [PropertyKey, ...PropertyKey[]];
+  const container = (value ?? (typeof key === 'number' ? [] : {})) as Record<
+    PropertyKey,
+    unknown
+  >;
+  const updated = setIn(container[key], rest, part);
+  if (Object.is(updated, container[key])) {
+    return value;
+  }
+  const copy = Array.isArray(container)
+    ? ([...container] as unknown as Record<PropertyKey, unknown>)
+    : { ...container };
+  copy[key] = updated;
+  return copy as T;
+}
+
+export {
+  Structural,
+  StructuralKey,
+  ValueAt,
+  PathValue,
+  Lens,
+  structuralEquals,
+  getIn,
+  setIn,
+};
@@ -1 +1,75 @@
 export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Mark a possible promise as handled, so a later rejection is not reported as unhandled.
+ * Used once a Routine is finalized: nobody waits for its result anymore.
+ */
+export function ignoreRejection(value: MaybePromise<unknown>): void {
+  if (value instanceof Promise) {
+    value.catch(() => {});
+  }
+}
+
+export function once<T>(fn: () => T): () => T {
+  let called = false;
+  let value: T;
+  return (): T => {
+    if (!called) {
+      called = true;
+      value = fn();
+    }
+    return value;
+  };
+}
+
+/**
+ * Settles like `promise`, or rejects with the abort reason as soon as
+ * `abortSignal` aborts.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  abortSignal: AbortSignal
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (abortSignal.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+    const onAbort = (): void => reject(abortSignal.reason);
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        abortSignal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        abortSignal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Resolves after `delayMs`, or rejects with the abort reason as soon as `abortSignal` aborts.
+ */
+export function sleep(
+  delayMs: number,
+  abortSignal: AbortSignal
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timeout);
+      reject(abortSignal.reason);
+    };
+    const timeout = setTimeout(() => {
+      abortSignal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { LogCapture } from './test-utils';
+import { LogCapture, ManualClock } from './test-utils';
 import {
   useEffect,
   useTimeout,
@@ -12,6 +12,44 @@ import {
   useFork,
   useConnection,
   createContext,
+  useRace,
+  useAny,
+  useAllSettled,
+  Routine,
+  useErrorBoundary,
+  useRetry,
+  RetryPolicy,
+  useDeadline,
+  TimeoutError,
+  Effect,
+  useUserContext,
+  use,
+  configure,
+  BlueprintOrderError,
+  FinalizeError,
+  useJoin,
+  CancelledError,
+  Fiber,
+  useSupervisor,
+  RestartLimitError,
+  ReadonlyAtom,
+  Portal,
+  useFocus,
+  batch,
+  Source,
+  SourceHandlers,
+  BasicSource,
+  useShared,
+  useComputed,
+  usePortalSnapshot,
+  useEach,
+  AtomList,
+  AtomMap,
+  useOrderedPortal,
+  useOrderedConnection,
+  OrderedPortal,
+  BufferOverflowError,
+  getConfig,
 } from '../src';
 
 const useLog = (logs: LogCapture, label: string, releaseLabel?: string): void =>
@@ -24,6 +62,21 @@ const useLog = (logs: LogCapture, label: string, releaseLabel?: string): void =>
     }
   });
 
+const listen = <T>(
+  logs: LogCapture,
+  source: Source<T>,
+  handlers?: SourceHandlers
+): { finalize: () => unknown } =>
+  source
+    .subscribe(
+      value =>
+        toRoutine(() =>
+          useLog(logs, `${String(value)}`, `released ${String(value)}`)
+        ),
+      handlers
+    )
+    .initialize();
+
 describe('Blueprint basic functionality', () => {
   it('should create a pure blueprint and collect its value', async () => {
     const logs = new LogCapture();
@@ -376,4 +429,2561 @@ describe('Blueprint basic functionality', () => {
       await app.finalize();
     });
   });
+
+  describe('Blueprint race combinators', () => {
+    it('should finalize the losers of a race', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const winner = useRace(
+          () => {
+            useLog(logs, 'slow started', 'slow released');
+            useTimeout(50);
+            useLog(logs, 'slow finished');
+            return 'slow';
+          },
+          () => {
+            useLog(logs, 'fast started', 'fast released');
+            useTimeout(10);
+            return 'fast';
+          }
+        );
+        useLog(logs, `winner: ${winner}`);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      let result = logs.expect([
+        'slow started',
+        'fast started',
+        'slow released',
+        'winner: fast',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+      result = logs.expect([
+        'slow started',
+        'fast started',
+        'slow released',
+        'winner: fast',
+        'fast released',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should return the first success with useAny', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const winner = useAny(
+          () => {
+            useTimeout(10);
+            useEffect(async () => {
+              throw new Error('failed');
+            });
+          },
+          () => {
+            useTimeout(20);
+            return 'ok';
+          }
+        );
+        useLog(logs, `winner: ${winner}`);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect(['winner: ok']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should report every outcome with useAllSettled', async () => {
+      const blueprint = (): string[] => {
+        const outcomes = useAllSettled(
+          () => {
+            useTimeout(10);
+            return 1;
+          },
+          () => {
+            useTimeout(5);
+            useEffect(async () => {
+              throw new Error('failed');
+            });
+          }
+        );
+        return outcomes.map(outcome => outcome.status);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      assert.deepStrictEqual(await app.result, ['fulfilled', 'rejected']);
+
+      await app.finalize();
+    });
+
+    it('should not start routines after a synchronous winner', () => {
+      let started = false;
+      const lazy = new (class extends Routine<number> {
+        public initialize = (): {
+          result: number;
+          finalize: () => void;
+        } => {
+          started = true;
+          return { result: 2, finalize: () => {} };
+        };
+      })();
+
+      const { result } = Routine.race([Routine.resolve(1), lazy]).initialize();
+      assert.strictEqual(result, 1);
+      assert.strictEqual(started, false);
+    });
+  });
+
+  describe('Blueprint error handling', () => {
+    it('should reject and finalize when a Blueprint throws', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useLog(logs, 'created', 'released');
+        useTimeout(10);
+        throw new Error('boom');
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(Promise.resolve(app.result), /boom/);
+
+      const result = logs.expect(['created', 'released']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should reject when a used Routine rejects', async () => {
+      const blueprint = (): void => {
+        useEffect(async () => {
+          throw new Error('rejected');
+        });
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(Promise.resolve(app.result), /rejected/);
+    });
+
+    it('should report a failing derivation outside any error boundary', async () => {
+      const unhandled: unknown[] = [];
+      const defaultHandler = getConfig().onUnhandledError;
+      configure({ onUnhandledError: error => unhandled.push(error) });
+      try {
+        const observed: unknown[] = [];
+        const atom = new Atom<number>(1);
+
+        const blueprint = (): void => {
+          const derived = useDerivation(atom, value => {
+            useTimeout(1);
+            if (value > 1) throw new Error(`derivation ${value} failed`);
+          });
+          useEffect(addFinalizeFn => {
+            const subscription = derived
+              .subscribe(() => Routine.resolve(undefined), {
+                error: error => observed.push(error),
+              })
+              .initialize();
+            addFinalizeFn(() => subscription.finalize());
+          });
+        };
+
+        const app = toRoutine(blueprint).initialize();
+        await app.result;
+        atom.set(2);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await app.finalize();
+
+        const unobserved = toRoutine(() => {
+          useDerivation(atom, () => {
+            useTimeout(1);
+            throw new Error('unobserved');
+          });
+        }).initialize();
+        await unobserved.result;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await unobserved.finalize();
+
+        assert.deepStrictEqual(
+          observed.map(error => (error as Error).message),
+          ['derivation 2 failed']
+        );
+        assert.deepStrictEqual(
+          unhandled.map(error => (error as Error).message),
+          ['unobserved']
+        );
+      } finally {
+        configure({ onUnhandledError: defaultHandler });
+      }
+    });
+
+    it('should swap in the fallback when a child Blueprint fails', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): string => {
+        return useErrorBoundary(
+          () => {
+            useLog(logs, 'child', 'child released');
+            useTimeout(10);
+            throw new Error('child failed');
+          },
+          error => {
+            useLog(logs, `fallback: ${(error as Error).message}`);
+            return 'fallback';
+          }
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      assert.strictEqual(await app.result, 'fallback');
+
+      const result = logs.expect([
+        'child',
+        'child released',
+        'fallback: child failed',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should catch errors from useDerivation children', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<number>(0);
+
+        useErrorBoundary(
+          () => {
+            useDerivation(atom, value => {
+              useLog(logs, `value: ${value}`, `released: ${value}`);
+              if (value > 0) {
+                throw new Error(`bad value ${value}`);
+              }
+            });
+          },
+          error => {
+            useLog(logs, `fallback: ${(error as Error).message}`);
+          }
+        );
+
+        useTimeout(10);
+        useEffect(() => atom.set(1));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const result = logs.expect([
+        'value: 0',
+        'released: 0',
+        'value: 1',
+        'released: 1',
+        'fallback: bad value 1',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should report a fallback failing after the boundary settled', async () => {
+      const unhandled: unknown[] = [];
+      const defaultHandler = getConfig().onUnhandledError;
+      configure({ onUnhandledError: error => unhandled.push(error) });
+      try {
+        const atom = new Atom<number>(0);
+
+        const app = toRoutine(() =>
+          useErrorBoundary(
+            () => {
+              useDerivation(atom, value => {
+                if (value > 0) throw new Error(`bad value ${value}`);
+              });
+            },
+            () => {
+              throw new Error('fallback failed');
+            }
+          )
+        ).initialize();
+        await app.result;
+        atom.set(1);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await app.finalize();
+
+        assert.deepStrictEqual(
+          unhandled.map(error => (error as Error).message),
+          ['fallback failed']
+        );
+      } finally {
+        configure({ onUnhandledError: defaultHandler });
+      }
+    });
+  });
+
+  describe('Blueprint retry functionality', () => {
+    it('should finalize each failed attempt before retrying', async () => {
+      const logs = new LogCapture();
+      let attempts = 0;
+
+      const blueprint = (): number => {
+        return useRetry(
+          () => {
+            const attempt = useEffect(() => ++attempts);
+            useLog(logs, `attempt ${attempt}`, `released ${attempt}`);
+            useTimeout(5);
+            if (attempt < 3) {
+              throw new Error(`attempt ${attempt} failed`);
+            }
+            return attempt;
+          },
+          RetryPolicy.count(2, 5)
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      assert.strictEqual(await app.result, 3);
+
+      const result = logs.expect([
+        'attempt 1',
+        'released 1',
+        'attempt 2',
+        'released 2',
+        'attempt 3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should give up when the predicate rejects the error', async () => {
+      let attempts = 0;
+
+      const blueprint = (): void => {
+        useRetry(
+          () => {
+            useEffect(() => {
+              attempts++;
+            });
+            throw new Error('fatal');
+          },
+          RetryPolicy.count(5).when(
+            error => (error as Error).message !== 'fatal'
+          )
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(Promise.resolve(app.result), /fatal/);
+      assert.strictEqual(attempts, 1);
+    });
+
+    it('should stop retrying once finalized', async () => {
+      let attempts = 0;
+
+      const blueprint = (): void => {
+        useRetry(
+          () => {
+            useEffect(() => {
+              attempts++;
+            });
+            throw new Error('failed');
+          },
+          RetryPolicy.count(10, 20)
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await app.finalize();
+      const attemptsAtFinalize = attempts;
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      assert.strictEqual(attemptsAtFinalize, 2);
+      assert.strictEqual(attempts, attemptsAtFinalize);
+    });
+
+    it('should decide on the error of an attempt whose cleanup fails', async () => {
+      const reported: unknown[] = [];
+      const seen: unknown[] = [];
+      configure({ onFinalizeError: error => reported.push(error) });
+      try {
+        const attempt = new Effect<void>(async addFinalizeFn => {
+          addFinalizeFn(() => {
+            throw new Error('cleanup failed');
+          });
+          throw new Error('original');
+        });
+        const policy = RetryPolicy.count(1).when(error => {
+          seen.push((error as Error).message);
+          return true;
+        });
+
+        const { result } = Routine.retry(attempt, policy).initialize();
+        await assert.rejects(Promise.resolve(result), /original/);
+
+        assert.deepStrictEqual(seen, ['original', 'original']);
+        assert.strictEqual(reported.length, 2);
+      } finally {
+        configure({ onFinalizeError: undefined });
+      }
+    });
+
+    it('should compute exponential backoff delays with jitter', () => {
+      const policy = RetryPolicy.exponential({
+        maxRetries: 3,
+        initialDelayMs: 100,
+        maxDelayMs: 300,
+        jitter: 0.5,
+        random: () => 0.5,
+      });
+      const error = new Error('failed');
+
+      assert.deepStrictEqual(
+        [1, 2, 3, 4].map(attempt => policy.delayBeforeRetry(error, attempt)),
+        [75, 150, 225, undefined]
+      );
+    });
+  });
+
+  describe('Blueprint deadline functionality', () => {
+    it('should finalize the Blueprint and throw a TimeoutError on expiry', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useDeadline(10, () => {
+          useEffect((addFinalizeFn, abortSignal) => {
+            logs.log('started');
+            addFinalizeFn(() => {
+              logs.log(`released, aborted: ${abortSignal.aborted}`);
+            });
+          });
+          useTimeout(50);
+          useLog(logs, 'finished');
+        });
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(Promise.resolve(app.result), TimeoutError);
+
+      const result = logs.expect(['started', 'released, aborted: true']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should resolve when the Blueprint finishes in time', async () => {
+      const blueprint = (): string =>
+        useDeadline(50, () => {
+          useTimeout(5);
+          return 'done';
+        });
+
+      const app = toRoutine(blueprint).initialize();
+      assert.strictEqual(await app.result, 'done');
+
+      await app.finalize();
+    });
+
+    it('should cap an inner deadline by its parent deadline', async () => {
+      const blueprint = (): void => {
+        useDeadline(20, () => {
+          useDeadline(1000, () => {
+            useTimeout(200);
+          });
+        });
+      };
+
+      const startedAt = Date.now();
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(
+        Promise.resolve(app.result),
+        (error: unknown) =>
+          error instanceof TimeoutError && error.timeoutMs <= 20
+      );
+      assert.ok(Date.now() - startedAt < 100);
+    });
+
+    it('should not wait for a hanging cleanup on expiry', async () => {
+      const logs = new LogCapture();
+      const hanging = new Effect<void>((addFinalizeFn, abortSignal) => {
+        addFinalizeFn(() => {
+          logs.log(`cleanup started, aborted: ${abortSignal.aborted}`);
+          return new Promise<void>(() => {});
+        });
+        return new Promise<void>(() => {});
+      });
+
+      const startedAt = Date.now();
+      const timed = Routine.timeout(hanging, 10).initialize();
+      await assert.rejects(Promise.resolve(timed.result), TimeoutError);
+      assert.ok(Date.now() - startedAt < 100);
+
+      const result = logs.expect(['cleanup started, aborted: true']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Generator Blueprint functionality', () => {
+    const delay = <T>(value: T, delayMs: number): Effect<T> =>
+      new Effect<T>(
+        () => new Promise(resolve => setTimeout(() => resolve(value), delayMs))
+      );
+
+    it('should resume after each yield without replaying', async () => {
+      const logs = new LogCapture();
+      let runs = 0;
+
+      const app = toRoutine(function* () {
+        runs++;
+        const initial = useEffect(() => 1);
+        const a = yield* delay(initial, 5);
+        const b = yield* delay(a + 1, 5);
+        useLog(logs, `a: ${a}, b: ${b}`, 'released');
+        return a + b;
+      }).initialize();
+
+      assert.strictEqual(await app.result, 3);
+      assert.strictEqual(runs, 1);
+
+      await app.finalize();
+      const result = logs.expect(['a: 1, b: 2', 'released']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should share context with hook-style Blueprints', async () => {
+      const nameCtx = createContext<string>();
+
+      const app = toRoutine(function* () {
+        nameCtx.useProvider('quon');
+        yield* delay(undefined, 5);
+        return yield* toRoutine(() => {
+          useTimeout(5);
+          return nameCtx.useConsumer();
+        }, useUserContext());
+      }).initialize();
+
+      assert.strictEqual(await app.result, 'quon');
+      await app.finalize();
+    });
+
+    it('should throw errors of yielded Routines into the generator', async () => {
+      const app = toRoutine(function* () {
+        try {
+          yield* new Effect<void>(async () => {
+            throw new Error('failed');
+          });
+          return 'unreachable';
+        } catch (error) {
+          return `caught: ${(error as Error).message}`;
+        }
+      }).initialize();
+
+      assert.strictEqual(await app.result, 'caught: failed');
+      await app.finalize();
+    });
+
+    it('should reject asynchronous use() inside a generator', async () => {
+      const app = toRoutine(function* () {
+        yield* delay(undefined, 1);
+        useTimeout(5);
+      }).initialize();
+
+      await assert.rejects(Promise.resolve(app.result), /yield\* routine/);
+    });
+
+    it('should close the generator when finalized', async () => {
+      const logs = new LogCapture();
+      const app = toRoutine(function* () {
+        try {
+          yield* delay(undefined, 20);
+          logs.log('after yield');
+        } finally {
+          logs.log('finally');
+        }
+      }).initialize();
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await app.finalize();
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      const result = logs.expect(['finally']);
+      assert.strictEqual(result.passed, true, result.message);
+      await assert.rejects(Promise.resolve(app.result), CancelledError);
+    });
+
+    it('should run finally blocks before the cleanups of started Routines', async () => {
+      const logs = new LogCapture();
+      const app = toRoutine(function* () {
+        useLog(logs, 'started', 'released');
+        try {
+          yield* new Effect<void>(() => new Promise<void>(() => {}));
+        } finally {
+          logs.log('finally');
+        }
+      }).initialize();
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const finalized = app.finalize();
+      const result = logs.expect(['started', 'finally', 'released']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await finalized;
+      await assert.rejects(Promise.resolve(app.result), CancelledError);
+    });
+  });
+
+  describe('Blueprint dev mode', () => {
+    it('should detect conditional use() calls', async () => {
+      configure({ devMode: true });
+      try {
+        let isFirstRun = true;
+
+        const blueprint = (): void => {
+          if (isFirstRun) {
+            isFirstRun = false;
+            useTimeout(5);
+          }
+          useAtom<number>(0);
+        };
+
+        const app = toRoutine(blueprint).initialize();
+        await assert.rejects(
+          Promise.resolve(app.result),
+          (error: unknown) =>
+            error instanceof BlueprintOrderError &&
+            error.message.includes('expected useTimeout, got useAtom')
+        );
+      } finally {
+        configure({ devMode: false });
+      }
+    });
+
+    it('should name labeled Routines in the error', async () => {
+      configure({ devMode: true });
+      try {
+        let runs = 0;
+        const fetchUser = Routine.resolve('user').withLabel('fetchUser');
+        const fetchPosts = Routine.resolve(['post']).withLabel('fetchPosts');
+
+        const blueprint = (): void => {
+          runs++;
+          if (runs === 1) {
+            use(fetchUser);
+          } else {
+            use(fetchPosts);
+          }
+          useTimeout(5);
+        };
+
+        const app = toRoutine(blueprint).initialize();
+        await assert.rejects(
+          Promise.resolve(app.result),
+          /expected fetchUser, got fetchPosts/
+        );
+      } finally {
+        configure({ devMode: false });
+      }
+    });
+  });
+
+  describe('Cooperative cancellation', () => {
+    it('should not start the continuation of a finalized Routine.then', async () => {
+      let continued = false;
+      const routine = new Effect<number>(
+        () => new Promise(resolve => setTimeout(() => resolve(1), 10))
+      ).then(value => {
+        continued = true;
+        return Routine.resolve(value + 1);
+      });
+
+      const { finalize } = routine.initialize();
+      await finalize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      assert.strictEqual(continued, false);
+    });
+
+    it('should not start anything after a Blueprint is finalized', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useLog(logs, 'started', 'released');
+        // Not cancellable: resolves even after finalization
+        useEffect(() => new Promise<void>(resolve => setTimeout(resolve, 20)));
+        useLog(logs, 'after');
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await app.finalize();
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      const result = logs.expect(['started', 'released']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should finalize cleanups registered after finalization', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useEffect(async addFinalizeFn => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          logs.log('opened');
+          addFinalizeFn(() => logs.log('closed'));
+        });
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await app.finalize();
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      const result = logs.expect(['opened', 'closed']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Resilient finalization', () => {
+    it('should run every finalizer and report all failures', async () => {
+      const logs = new LogCapture();
+      const reported: unknown[] = [];
+      configure({ onFinalizeError: error => reported.push(error) });
+      try {
+        const { finalize } = new Effect<void>(addFinalizeFn => {
+          addFinalizeFn(() => logs.log('first'));
+          addFinalizeFn(async () => {
+            logs.log('second');
+            throw new Error('async failure');
+          });
+          addFinalizeFn(() => {
+            logs.log('third');
+            throw new Error('sync failure');
+          });
+        }).initialize();
+
+        await assert.rejects(
+          Promise.resolve(finalize()),
+          (error: unknown) =>
+            error instanceof FinalizeError &&
+            error instanceof AggregateError &&
+            error.errors.length === 2
+        );
+
+        const result = logs.expect(['third', 'second', 'first']);
+        assert.strictEqual(result.passed, true, result.message);
+        assert.strictEqual(reported.length, 2);
+      } finally {
+        configure({ onFinalizeError: undefined });
+      }
+    });
+
+    it('should finalize every Blueprint scope when some cleanups fail', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const portal = usePortal<number>();
+        useDerivation(portal, value => {
+          useEffect(addFinalizeFn => {
+            addFinalizeFn(async () => {
+              logs.log(`released: ${value}`);
+              throw new Error(`failed: ${value}`);
+            });
+          });
+        });
+        useConnection(portal, 1);
+        useConnection(portal, 2);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      await assert.rejects(
+        Promise.resolve(app.finalize()),
+        (error: unknown) =>
+          error instanceof FinalizeError && error.errors.length === 2
+      );
+      assert.deepStrictEqual(logs.getLogs().sort(), [
+        'released: 1',
+        'released: 2',
+      ]);
+    });
+    it('should settle a race when the cleanup of a loser fails', async () => {
+      const reported: unknown[] = [];
+      configure({ onFinalizeError: error => reported.push(error) });
+      try {
+        const loser = new Effect<string>(addFinalizeFn => {
+          addFinalizeFn(() => {
+            throw new Error('loser cleanup failed');
+          });
+          return new Promise<string>(() => {});
+        });
+        const winner = new Effect<string>(async () => 'winner');
+
+        const { result, finalize } = Routine.race([loser, winner]).initialize();
+        assert.strictEqual(await result, 'winner');
+        await finalize();
+
+        assert.deepStrictEqual(
+          reported.map(error => (error as Error).message),
+          ['loser cleanup failed']
+        );
+      } finally {
+        configure({ onFinalizeError: undefined });
+      }
+    });
+
+    it('should report failing cleanups of released Atom values', async () => {
+      const logs = new LogCapture();
+      const reported: unknown[] = [];
+      configure({ onFinalizeError: error => reported.push(error) });
+      try {
+        const atom = new Atom<number>(1);
+        const subscription = atom
+          .subscribe(
+            value =>
+              new Effect<void>(addFinalizeFn => {
+                logs.log(`${value}`);
+                addFinalizeFn(() => {
+                  throw new Error(`sync ${value}`);
+                });
+                addFinalizeFn(async () => {
+                  throw new Error(`async ${value}`);
+                });
+              })
+          )
+          .initialize();
+
+        atom.set(2);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const result = logs.expect(['1', '2']);
+        assert.strictEqual(result.passed, true, result.message);
+        assert.deepStrictEqual(
+          reported.map(error => (error as Error).message).sort(),
+          ['async 1', 'sync 1']
+        );
+        await assert.rejects(Promise.resolve(subscription.finalize()));
+      } finally {
+        configure({ onFinalizeError: undefined });
+      }
+    });
+  });
+
+  describe('Fiber control', () => {
+    it('should cancel a single fiber without finalizing its parent', async () => {
+      const logs = new LogCapture();
+      let fiber: Fiber<void> | undefined;
+
+      const blueprint = (): void => {
+        useLog(logs, 'parent', 'parent released');
+        fiber = useFork(() => {
+          useLog(logs, 'job', 'job released');
+          useTimeout(100);
+        });
+        useEffect(() => {
+          fiber?.onSettled(status => logs.log(`settled: ${status}`));
+        });
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+      assert.strictEqual(fiber?.status, 'running');
+
+      await fiber?.cancel();
+      assert.strictEqual(fiber?.status, 'cancelled');
+      await assert.rejects(Promise.resolve(fiber?.result), CancelledError);
+
+      let result = logs.expect([
+        'parent',
+        'job',
+        'settled: cancelled',
+        'job released',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+      result = logs.expect([
+        'parent',
+        'job',
+        'settled: cancelled',
+        'job released',
+        'parent released',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should reject useJoin with a CancelledError', async () => {
+      const blueprint = (): void => {
+        const fiber = useFork(() => {
+          useTimeout(100);
+        });
+        useEffect(() => fiber.cancel());
+        useJoin(fiber);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await assert.rejects(Promise.resolve(app.result), CancelledError);
+    });
+
+    it('should report success and failure through status', async () => {
+      const blueprint = (): string[] => {
+        const succeeding = useFork(() => {
+          useTimeout(5);
+        });
+        const failing = useFork(() => {
+          useTimeout(5);
+          throw new Error('failed');
+        });
+        useAllSettled(
+          () => useJoin(succeeding),
+          () => useJoin(failing)
+        );
+        return [succeeding.status, failing.status];
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      assert.deepStrictEqual(await app.result, ['succeeded', 'failed']);
+
+      await app.finalize();
+    });
+  });
+
+  describe('Blueprint supervision', () => {
+    // A child that crashes on its first `failures` runs
+    const createChild = (
+      logs: LogCapture,
+      name: string,
+      failures: number
+    ): (() => void) => {
+      let runs = 0;
+      return () => {
+        const run = useEffect(() => ++runs);
+        useLog(logs, `${name} ${run}`, `${name} released ${run}`);
+        if (run <= failures) {
+          useTimeout(5);
+          throw new Error(`${name} crashed`);
+        }
+      };
+    };
+
+    it('should restart only the failed child with one-for-one', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useSupervisor('one-for-one', [
+          createChild(logs, 'a', 0),
+          createChild(logs, 'b', 1),
+        ]);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const result = logs.expect(['a 1', 'b 1', 'b released 1', 'b 2']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should restart every child with one-for-all', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useSupervisor('one-for-all', [
+          createChild(logs, 'a', 0),
+          createChild(logs, 'b', 1),
+        ]);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const result = logs.expect([
+        'a 1',
+        'b 1',
+        'b released 1',
+        'a released 1',
+        'a 2',
+        'b 2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should restart the failed child and later ones with rest-for-one', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useSupervisor('rest-for-one', [
+          createChild(logs, 'a', 0),
+          createChild(logs, 'b', 1),
+          createChild(logs, 'c', 0),
+        ]);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const result = logs.expect([
+        'a 1',
+        'b 1',
+        'c 1',
+        'b released 1',
+        'c released 1',
+        'b 2',
+        'c 2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should escalate once the restart limit is exceeded', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        useErrorBoundary(
+          () => {
+            useSupervisor(
+              'one-for-one',
+              [createChild(logs, 'a', Infinity), createChild(logs, 'b', 0)],
+              { maxRestarts: 2, withinMs: 1000 }
+            );
+          },
+          error => {
+            assert.ok(error instanceof RestartLimitError);
+            useLog(logs, `escalated: ${(error.cause as Error).message}`);
+          }
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      const result = logs.expect([
+        'a 1',
+        'b 1',
+        'a released 1',
+        'a 2',
+        'a released 2',
+        'a 3',
+        'a released 3',
+        'b released 1',
+        'escalated: a crashed',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should report escalation to onUnhandledError without an error boundary', async () => {
+      const logs = new LogCapture();
+      const unhandled: unknown[] = [];
+      const defaultHandler = getConfig().onUnhandledError;
+      configure({ onUnhandledError: error => unhandled.push(error) });
+      try {
+        const blueprint = (): string => {
+          useSupervisor('one-for-one', [createChild(logs, 'a', Infinity)], {
+            maxRestarts: 1,
+            withinMs: 1000,
+          });
+          return 'ok';
+        };
+
+        const app = toRoutine(blueprint).initialize();
+        assert.strictEqual(await app.result, 'ok');
+        await new Promise(resolve => setTimeout(resolve, 40));
+
+        const result = logs.expect([
+          'a 1',
+          'a released 1',
+          'a 2',
+          'a released 2',
+        ]);
+        assert.strictEqual(result.passed, true, result.message);
+        assert.strictEqual(unhandled.length, 1);
+        assert.ok(unhandled[0] instanceof RestartLimitError);
+        assert.strictEqual((unhandled[0].cause as Error).message, 'a crashed');
+        await app.finalize();
+      } finally {
+        configure({ onUnhandledError: defaultHandler });
+      }
+    });
+  });
+
+  describe('Atom read access', () => {
+    it('should read the current value synchronously', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<number>(1);
+        useEffect(() => logs.log(`current: ${atom.get()}`));
+        useTimeout(5);
+        useEffect(() => atom.modify(prev => prev + 1));
+        useEffect(() => logs.log(`current: ${atom.get()}`));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect(['current: 1', 'current: 2']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should hand out a readonly view to child Blueprints', async () => {
+      const logs = new LogCapture();
+
+      const child = (count: ReadonlyAtom<number>): void => {
+        useDerivation(count, value => {
+          useLog(logs, `child: ${value}, get: ${count.get()}`);
+        });
+      };
+
+      const blueprint = (): void => {
+        const atom = useAtom<number>(0);
+        child(atom);
+        useTimeout(5);
+        useEffect(() => atom.set(1));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect(['child: 0, get: 0', 'child: 1, get: 1']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+  });
+
+  describe('Structural equality', () => {
+    it('should skip Atom updates with structurally equal values', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<{ ids: number[] }>({ ids: [1, 2] });
+        useDerivation(atom, value => {
+          useLog(logs, `ids: ${value.ids.join(',')}`, 'released');
+        });
+        useTimeout(5);
+        useEffect(() => atom.set({ ids: [1, 2] }));
+        useTimeout(5);
+        useEffect(() => atom.modify(prev => ({ ids: [...prev.ids, 3] })));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect(['ids: 1,2', 'released', 'ids: 1,2,3']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should use a custom equals to decide whether to update', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<string>('Quon', {
+          equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        });
+        useDerivation(atom, value => {
+          useLog(logs, `name: ${value}`);
+        });
+        useTimeout(5);
+        useEffect(() => atom.set('QUON'));
+        useTimeout(5);
+        useEffect(() => logs.log(`current: ${atom.get()}`));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect(['name: Quon', 'current: Quon']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should keep derivations of distinct slices alive', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom({ user: { name: 'a' }, clicks: 0 });
+        const user = atom.map(state => state.user).distinct();
+        useDerivation(user, value => {
+          useLog(logs, `user: ${value.name}`, `released: ${value.name}`);
+        });
+        useTimeout(5);
+        useEffect(() =>
+          atom.modify(prev => ({ user: { ...prev.user }, clicks: 1 }))
+        );
+        useTimeout(5);
+        useEffect(() => atom.set({ user: { name: 'b' }, clicks: 1 }));
+        useTimeout(5);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+      await app.finalize();
+
+      const result = logs.expect([
+        'user: a',
+        'released: a',
+        'user: b',
+        'released: b',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should share one routine among equal Portal values', async () => {
+      const logs = new LogCapture();
+      const portal = new Portal<number>();
+
+      const subscription = portal
+        .distinct()
+        .subscribe(value =>
+          toRoutine(() => useLog(logs, `value: ${value}`, `released: ${value}`))
+        )
+        .initialize();
+
+      const first = portal.connect(1).initialize();
+      const second = portal.connect(1).initialize();
+      await first.finalize();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      logs.log('first disconnected');
+      await second.finalize();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'value: 1',
+        'first disconnected',
+        'released: 1',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Focused Atoms', () => {
+    type State = {
+      settings: { theme: string };
+      items: { name: string }[];
+    };
+    const initialState: State = {
+      settings: { theme: 'light' },
+      items: [{ name: 'a' }, { name: 'b' }],
+    };
+
+    it('should only notify when the focused part changes', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<State>(initialState);
+        const theme = useFocus(atom, ['settings', 'theme']);
+        useDerivation(theme, value => {
+          useLog(logs, `theme: ${value}`, `released: ${value}`);
+        });
+        useTimeout(5);
+        useEffect(() =>
+          atom.modify(prev => ({
+            ...prev,
+            items: [...prev.items, { name: 'c' }],
+          }))
+        );
+        useTimeout(5);
+        useEffect(() => theme.set('dark'));
+        useTimeout(5);
+        useEffect(() => logs.log(`items: ${atom.get().items.length}`));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'theme: light',
+        'released: light',
+        'theme: dark',
+        'items: 3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should write through nested focus immutably', () => {
+      const atom = new Atom<State>(initialState);
+      const second = atom.focus('items').focus(1);
+
+      second.modify(item => item && { ...item, name: item.name.toUpperCase() });
+
+      assert.deepStrictEqual(atom.get().items, [{ name: 'a' }, { name: 'B' }]);
+      assert.strictEqual(atom.get().settings, initialState.settings);
+      assert.deepStrictEqual(initialState.items[1], { name: 'b' });
+      assert.strictEqual(atom.focus(['items', 1, 'name']).get(), 'B');
+    });
+
+    it('should keep updating when a focused list item is removed', async () => {
+      const logs = new LogCapture();
+      const atom = new Atom<State>(initialState);
+      const name: ReadonlyAtom<string | undefined> = atom.focus([
+        'items',
+        1,
+        'name',
+      ]);
+      const subscription = name
+        .subscribe(value => toRoutine(() => useLog(logs, `name: ${value}`)))
+        .initialize();
+
+      atom.modify(state => ({ ...state, items: [{ name: 'x' }] }));
+
+      assert.deepStrictEqual(atom.get().items, [{ name: 'x' }]);
+      assert.strictEqual(name.get(), undefined);
+      const result = logs.expect(['name: b', 'name: undefined']);
+      assert.strictEqual(result.passed, true, result.message);
+      await subscription.finalize();
+    });
+
+    it('should recreate a removed list item when writing through it', () => {
+      const atom = new Atom<State>(initialState);
+      const name = atom.focus(['items', 1, 'name']);
+
+      atom.modify(state => ({ ...state, items: [{ name: 'x' }] }));
+      const items = atom.get().items;
+      name.set(undefined);
+      assert.strictEqual(atom.get().items, items);
+
+      name.set('z');
+      assert.deepStrictEqual(atom.get().items, [{ name: 'x' }, { name: 'z' }]);
+      assert.strictEqual(name.get(), 'z');
+    });
+
+    it('should focus through a custom lens', () => {
+      const atom = new Atom<State>(initialState);
+      const names = atom.focus({
+        get: (state: State) => state.items.map(item => item.name).join(','),
+        set: (state: State, joined: string) => ({
+          ...state,
+          items: joined.split(',').map(name => ({ name })),
+        }),
+      });
+
+      names.set('x,y,z');
+
+      assert.strictEqual(names.get(), 'x,y,z');
+      assert.strictEqual(atom.get().items.length, 3);
+    });
+  });
+
+  describe('Batched updates', () => {
+    it('should run a combined derivation once per batch', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const a = useAtom<number>(0);
+        const b = useAtom<number>(0);
+        useDerivation(Source.combineAll(a, b), ([x, y]) => {
+          useLog(logs, `pair: ${x},${y}`, `released: ${x},${y}`);
+        });
+        useTimeout(5);
+        useEffect(() =>
+          batch(() => {
+            a.set(1);
+            b.set(2);
+            logs.log(`inside: ${a.get()},${b.get()}`);
+          })
+        );
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'pair: 0,0',
+        'inside: 1,2',
+        'released: 0,0',
+        'pair: 1,2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should join nested batches and skip unchanged Atoms', () => {
+      const logs = new LogCapture();
+      const a = new Atom<number>(0);
+      const b = new Atom<string>('x');
+      const subscription = Source.combineAll(a, b)
+        .subscribe(([x, y]) => toRoutine(() => useLog(logs, `${x}${y}`)))
+        .initialize();
+
+      batch(() => {
+        a.set(1);
+        batch(() => b.set('y'));
+        b.set('x');
+        logs.log('inner batch done');
+      });
+
+      const result = logs.expect(['0x', 'inner batch done', '1x']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      void subscription.finalize();
+    });
+
+    it('should discard the updates of a failing batch', () => {
+      const atom = new Atom<number>(0);
+
+      assert.throws(() =>
+        batch(() => {
+          atom.set(1);
+          throw new Error('abort');
+        })
+      );
+      assert.strictEqual(atom.get(), 0);
+
+      atom.set(2);
+      assert.strictEqual(atom.get(), 2);
+    });
+  });
+
+  describe('Source.combineLatest', () => {
+    const tracked = <T>(logs: LogCapture, source: Source<T>): Source<T> =>
+      new BasicSource<T>(
+        listener =>
+          new Effect<void>(addFinalizeFn => {
+            logs.log('subscribed');
+            const subscription = source.subscribe(listener).initialize();
+            addFinalizeFn(() => {
+              logs.log('unsubscribed');
+              return subscription.finalize();
+            });
+          })
+      );
+
+    it('should keep the other subscriptions when one input changes', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const a = useAtom<number>(0);
+        const b = useAtom<string>('x');
+        const combined = Source.combineLatest(a, tracked(logs, b));
+        useDerivation(combined, ([x, y]) => {
+          useLog(logs, `pair: ${x}${y}`, `released: ${x}${y}`);
+        });
+        useTimeout(5);
+        useEffect(() => a.set(1));
+        useTimeout(5);
+        useEffect(() => b.set('y'));
+        useTimeout(5);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+      await app.finalize();
+
+      const result = logs.expect([
+        'subscribed',
+        'pair: 0x',
+        'released: 0x',
+        'pair: 1x',
+        'released: 1x',
+        'pair: 1y',
+        'unsubscribed',
+        'released: 1y',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should wait until every input has a value', () => {
+      const logs = new LogCapture();
+      const atom = new Atom<number>(1);
+      const portal = new Portal<string>();
+      const subscription = Source.combineLatest(atom, portal)
+        .subscribe(([x, y]) => toRoutine(() => useLog(logs, `${x}${y}`)))
+        .initialize();
+
+      logs.log('nothing yet');
+      const connection = portal.connect('a').initialize();
+      atom.set(2);
+      void connection.finalize();
+      atom.set(3);
+
+      const result = logs.expect(['nothing yet', '1a', '2a']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      void subscription.finalize();
+    });
+  });
+
+  describe('Shared Sources', () => {
+    it('should compute a shared map once for all subscribers', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const atom = useAtom<number>(1);
+        const doubled = useShared(
+          atom.map(value => {
+            logs.log(`computed: ${value}`);
+            return value * 2;
+          })
+        );
+        for (const name of ['a', 'b', 'c']) {
+          useDerivation(doubled, value => {
+            useLog(logs, `${name}: ${value}`);
+          });
+        }
+        useTimeout(5);
+        useEffect(() => atom.set(2));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'computed: 1',
+        'a: 2',
+        'b: 2',
+        'c: 2',
+        'computed: 2',
+        'a: 4',
+        'b: 4',
+        'c: 4',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should subscribe upstream while there are subscribers', async () => {
+      const logs = new LogCapture();
+      const atom = new Atom<number>(1);
+      const upstream = new BasicSource<number>(
+        listener =>
+          new Effect<void>(addFinalizeFn => {
+            logs.log('subscribed');
+            const subscription = atom.subscribe(listener).initialize();
+            addFinalizeFn(() => {
+              logs.log('unsubscribed');
+              return subscription.finalize();
+            });
+          })
+      );
+      const shared = upstream.share();
+      const listen = (name: string): (() => void | Promise<void>) => {
+        const subscription = shared
+          .subscribe(value =>
+            toRoutine(() => useLog(logs, `${name}: ${value}`))
+          )
+          .initialize();
+        return () => subscription.finalize();
+      };
+
+      const leaveFirst = listen('first');
+      const leaveSecond = listen('second');
+      await leaveFirst();
+      logs.log('first left');
+      await leaveSecond();
+      await listen('third')();
+
+      const result = logs.expect([
+        'subscribed',
+        'first: 1',
+        'second: 1',
+        'first left',
+        'unsubscribed',
+        'subscribed',
+        'third: 1',
+        'unsubscribed',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Computed values', () => {
+    it('should hold the latest value of any Source', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const a = useAtom<number>(1);
+        const b = useAtom<number>(2);
+        const sum = use(
+          Source.combineAll(a, b)
+            .map(([x, y]) => x + y)
+            .hold(0)
+        );
+        useEffect(() => logs.log(`initial: ${sum.get()}`));
+        useDerivation(sum, value => {
+          useLog(logs, `sum: ${value}`);
+        });
+        useTimeout(5);
+        useEffect(() => a.set(3));
+        useTimeout(5);
+        useEffect(() => logs.log(`current: ${sum.get()}`));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'initial: 3',
+        'sum: 3',
+        'sum: 5',
+        'current: 5',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should track the Atoms read by a computed value', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const useA = useAtom<boolean>(true);
+        const a = useAtom<string>('a1');
+        const b = useAtom<string>('b1');
+        const picked = useComputed(() => {
+          const value = useA.get() ? a.get() : b.get();
+          logs.log(`computed: ${value}`);
+          return value;
+        });
+        useDerivation(picked, value => {
+          useLog(logs, `picked: ${value}`);
+        });
+        useTimeout(5);
+        useEffect(() => b.set('b2'));
+        useTimeout(5);
+        useEffect(() => useA.set(false));
+        useTimeout(5);
+        useEffect(() => a.set('a2'));
+        useTimeout(5);
+        useEffect(() => b.set('b3'));
+        useTimeout(5);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'computed: a1',
+        'picked: a1',
+        'computed: b2',
+        'picked: b2',
+        'computed: b3',
+        'picked: b3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should keep the previous value when a recompute throws', async () => {
+      const logs = new LogCapture();
+      const unhandled: unknown[] = [];
+      const defaultHandler = getConfig().onUnhandledError;
+      configure({ onUnhandledError: error => unhandled.push(error) });
+
+      try {
+        const atom = new Atom<number>(0);
+        const computed = Source.computed(() => {
+          const value = atom.get();
+          if (value === 1) throw new Error('boom');
+          return value;
+        }).initialize();
+        const current = await computed.result;
+        const subscription = atom
+          .subscribe(value => toRoutine(() => useLog(logs, `atom: ${value}`)))
+          .initialize();
+
+        atom.set(1);
+        logs.log(`computed: ${current.get()}`);
+        atom.set(2);
+        logs.log(`computed: ${current.get()}`);
+
+        const result = logs.expect([
+          'atom: 0',
+          'atom: 1',
+          'computed: 0',
+          'atom: 2',
+          'computed: 2',
+        ]);
+        assert.strictEqual(result.passed, true, result.message);
+        assert.deepStrictEqual(
+          unhandled.map(error => (error as Error).message),
+          ['boom']
+        );
+
+        await subscription.finalize();
+        await computed.finalize();
+      } finally {
+        configure({ onUnhandledError: defaultHandler });
+      }
+    });
+  });
+
+  describe('Portal snapshots', () => {
+    it('should list the connected values as they come and go', async () => {
+      const logs = new LogCapture();
+
+      const panel = (portal: Portal<string>, name: string): void => {
+        useConnection(portal, name);
+        useTimeout(1000);
+      };
+
+      const blueprint = (): void => {
+        const panels = usePortal<string>();
+        const snapshot = usePortalSnapshot(panels);
+        useDerivation(snapshot, names => {
+          useLog(logs, `panels: ${names.join(',')}`);
+        });
+        const left = useFork(() => panel(panels, 'left'));
+        const right = useFork(() => panel(panels, 'right'));
+        useTimeout(5);
+        useEffect(() => left.cancel());
+        useTimeout(5);
+        useEffect(() => right.cancel());
+        useTimeout(5);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'panels: ',
+        'panels: left',
+        'panels: left,right',
+        'panels: right',
+        'panels: ',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should reduce the alive values', async () => {
+      const portal = new Portal<number>();
+      const total = portal.reduce((sum, value) => sum + value, 0).initialize();
+      const sum = await total.result;
+
+      const first = portal.connect(2).initialize();
+      const second = portal.connect(5).initialize();
+      assert.strictEqual(sum.get(), 7);
+      await first.finalize();
+      assert.strictEqual(sum.get(), 5);
+
+      await second.finalize();
+      await total.finalize();
+    });
+  });
+
+  describe('Keyed collections', () => {
+    type Todo = { id: number; title: string };
+
+    it('should only touch the children of affected keys', async () => {
+      const logs = new LogCapture();
+      const todos = new AtomList(
+        (todo: Todo) => todo.id,
+        [
+          { id: 1, title: 'a' },
+          { id: 2, title: 'b' },
+        ]
+      );
+
+      const blueprint = (): void => {
+        useEach(todos, (id, todo) => {
+          useLog(logs, `mount ${id}`, `unmount ${id}`);
+          useDerivation(todo, ({ title }) => {
+            useLog(logs, `${id}: ${title}`);
+          });
+        });
+        useTimeout(5);
+        useEffect(() =>
+          todos.modify(prev =>
+            prev.map(todo =>
+              todo.id === 2 ? { ...todo, title: 'B' } : { ...todo }
+            )
+          )
+        );
+        useTimeout(5);
+        useEffect(() => todos.push({ id: 3, title: 'c' }));
+        useTimeout(5);
+        useEffect(() => todos.remove(1));
+        useTimeout(5);
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        'mount 1',
+        '1: a',
+        'mount 2',
+        '2: b',
+        '2: B',
+        'mount 3',
+        '3: c',
+        'unmount 1',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+      assert.deepStrictEqual(todos.keys(), [2, 3]);
+
+      await app.finalize();
+      await todos.finalize();
+    });
+
+    it('should add, update and delete AtomMap entries', async () => {
+      const logs = new LogCapture();
+      const scores = new AtomMap<string, number>([['ann', 1]]);
+      const subscription = scores
+        .subscribe(([name, score]) =>
+          toRoutine(() => {
+            useLog(logs, `add ${name}`, `delete ${name}`);
+            useDerivation(score, value => useLog(logs, `${name}: ${value}`));
+          })
+        )
+        .initialize();
+
+      scores.set('bob', 2);
+      scores.set('ann', 3);
+      await scores.delete('bob');
+
+      assert.strictEqual(scores.get('ann'), 3);
+      assert.strictEqual(scores.has('bob'), false);
+      const result = logs.expect([
+        'add ann',
+        'ann: 1',
+        'add bob',
+        'bob: 2',
+        'ann: 3',
+        'delete bob',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await subscription.finalize();
+      await scores.finalize();
+    });
+  });
+
+  describe('OrderedPortal', () => {
+    it('should keep snapshots in order as values connect and move', async () => {
+      const logs = new LogCapture();
+
+      const blueprint = (): void => {
+        const toolbar = useOrderedPortal<string>();
+        const items = usePortalSnapshot(toolbar);
+        useDerivation(items, names => {
+          useLog(logs, names.join(','));
+        });
+        const save = useOrderedConnection(toolbar, 'save', { order: 10 });
+        useOrderedConnection(toolbar, 'open', { before: save });
+        const help = useOrderedConnection(toolbar, 'help');
+        useOrderedConnection(toolbar, 'new', { order: 0 });
+        useTimeout(5);
+        useEffect(() => help.move({ before: save }));
+      };
+
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+
+      const result = logs.expect([
+        '',
+        'save',
+        'open,save',
+        'open,save,help',
+        'new,open,save,help',
+        'new,open,help,save',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await app.finalize();
+    });
+
+    it('should link new subscribers in order and not re-link on move', async () => {
+      const logs = new LogCapture();
+      const portal = new OrderedPortal<string>();
+
+      const b = await portal.connect('b', { order: 2 }).initialize().result;
+      portal.connect('a', { order: 1 }).initialize();
+      const subscription = portal
+        .subscribe(value =>
+          toRoutine(() => useLog(logs, `link ${value}`, `unlink ${value}`))
+        )
+        .initialize();
+      b.move({ order: 0 });
+
+      assert.deepStrictEqual(portal.values(), ['b', 'a']);
+      const result = logs.expect(['link a', 'link b']);
+      assert.strictEqual(result.passed, true, result.message);
+
+      await subscription.finalize();
+      await portal.finalize();
+    });
+  });
+
+  describe('Derivation strategies', () => {
+    const sleep = (ms: number): Promise<void> =>
+      new Promise(resolve => setTimeout(resolve, ms));
+
+    const runWithAtom = async (
+      strategy: 'concurrent' | 'switch'
+    ): Promise<string[]> => {
+      const logs = new LogCapture();
+      const blueprint = (): void => {
+        const port = useAtom<number>(1);
+        useDerivation(
+          port,
+          value => {
+            useEffect(addFinalizeFn => {
+              logs.log(`open ${value}`);
+              addFinalizeFn(async () => {
+                await sleep(10);
+                logs.log(`closed ${value}`);
+              });
+            });
+          },
+          { strategy }
+        );
+        useTimeout(5);
+        useEffect(() => port.set(2));
+        useTimeout(20);
+      };
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+      await app.finalize();
+      return logs.getLogs();
+    };
+
+    const runWithPortal = async (
+      strategy: 'concurrent' | 'queue' | 'exhaust'
+    ): Promise<string[]> => {
+      const logs = new LogCapture();
+      const blueprint = (): void => {
+        const requests = usePortal<string>();
+        useDerivation(
+          requests,
+          value => {
+            useEffect(() => logs.log(`start ${value}`));
+            useTimeout(10);
+            useEffect(() => logs.log(`ready ${value}`));
+          },
+          { strategy }
+        );
+        useConnection(requests, 'a');
+        useTimeout(2);
+        useConnection(requests, 'b');
+        useTimeout(20);
+        useConnection(requests, 'c');
+        useTimeout(20);
+      };
+      const app = toRoutine(blueprint).initialize();
+      await app.result;
+      await app.finalize();
+      return logs.getLogs();
+    };
+
+    it('should overlap teardown and setup by default', async () => {
+      assert.deepStrictEqual(await runWithAtom('concurrent'), [
+        'open 1',
+        'open 2',
+        'closed 1',
+        'closed 2',
+      ]);
+    });
+
+    it('should wait for the old teardown with switch', async () => {
+      assert.deepStrictEqual(await runWithAtom('switch'), [
+        'open 1',
+        'closed 1',
+        'open 2',
+        'closed 2',
+      ]);
+    });
+
+    it('should start one value at a time with queue', async () => {
+      assert.deepStrictEqual(await runWithPortal('queue'), [
+        'start a',
+        'ready a',
+        'start b',
+        'ready b',
+        'start c',
+        'ready c',
+      ]);
+      assert.deepStrictEqual(await runWithPortal('concurrent'), [
+        'start a',
+        'start b',
+        'ready a',
+        'ready b',
+        'start c',
+        'ready c',
+      ]);
+    });
+
+    it('should ignore values while starting up with exhaust', async () => {
+      assert.deepStrictEqual(await runWithPortal('exhaust'), [
+        'start a',
+        'ready a',
+        'start c',
+        'ready c',
+      ]);
+    });
+  });
+
+  describe('Time-based operators', () => {
+    it('should debounce values and drop superseded ones', async () => {
+      const logs = new LogCapture();
+      const clock = new ManualClock();
+      const query = new Atom<string>('a');
+      const subscription = listen(logs, query.debounce(100, clock));
+
+      clock.advance(50);
+      query.set('ab');
+      clock.advance(50);
+      logs.log('typing');
+      clock.advance(50);
+      query.set('abc');
+      clock.advance(100);
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'typing',
+        'ab',
+        'released ab',
+        'abc',
+        'released abc',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should throttle and audit values', async () => {
+      const logs = new LogCapture();
+      const clock = new ManualClock();
+      const reading = new Atom<number>(1);
+      const throttled = listen(logs, reading.throttle(100, clock));
+      const audited = listen(
+        logs,
+        reading.auditTime(100, clock).map(v => -v)
+      );
+
+      clock.advance(10);
+      reading.set(2);
+      clock.advance(90);
+      logs.log('window closed');
+      clock.advance(10);
+      reading.set(3);
+      await throttled.finalize();
+      await audited.finalize();
+
+      const result = logs.expect([
+        '1',
+        'released 1',
+        '-2',
+        'window closed',
+        'released -2',
+        '3',
+        'released 3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should delay values and clear timers on finalize', async () => {
+      const logs = new LogCapture();
+      const clock = new ManualClock();
+      const portal = new Portal<string>();
+      const subscription = listen(logs, portal.delay(100, clock));
+
+      const early = portal.connect('early').initialize();
+      clock.advance(100);
+      const late = portal.connect('late').initialize();
+      await early.finalize();
+      clock.advance(50);
+      await subscription.finalize();
+      clock.advance(100);
+      await late.finalize();
+
+      const result = logs.expect(['early', 'released early']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should sample the latest value on each notification', async () => {
+      const logs = new LogCapture();
+      const value = new Atom<number>(1);
+      const ticks = new Portal<number>();
+      const subscription = listen(logs, value.sample(ticks));
+
+      value.set(2);
+      const first = ticks.connect(1).initialize();
+      const second = ticks.connect(2).initialize();
+      value.set(3);
+      const third = ticks.connect(3).initialize();
+      await subscription.finalize();
+      await Promise.all([first, second, third].map(tick => tick.finalize()));
+
+      const result = logs.expect(['2', 'released 2', '3', 'released 3']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Stateful operators', () => {
+    it('should scan and pair Atom values', async () => {
+      const logs = new LogCapture();
+      const atom = new Atom<number>(1);
+      const sums = listen(
+        logs,
+        atom.scan((sum, value) => sum + value, 0)
+      );
+      const pairs = listen(logs, atom.pairwise());
+
+      atom.set(2);
+      atom.set(3);
+      await sums.finalize();
+      await pairs.finalize();
+
+      const result = logs.expect([
+        '1',
+        'released 1',
+        '3',
+        '1,2',
+        'released 3',
+        'released 1,2',
+        '6',
+        '2,3',
+        'released 6',
+        'released 2,3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should release the start value when the first value arrives', async () => {
+      const logs = new LogCapture();
+      const portal = new Portal<string>();
+      const subscription = listen(logs, portal.startWith('loading'));
+
+      logs.log('subscribed');
+      const connection = portal.connect('ready').initialize();
+      await connection.finalize();
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'loading',
+        'subscribed',
+        'released loading',
+        'ready',
+        'released ready',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should zip Portal values in order', async () => {
+      const logs = new LogCapture();
+      const lefts = new Portal<string>();
+      const rights = new Portal<number>();
+      const subscription = listen(logs, lefts.zip(rights));
+
+      const zero = rights.connect(0).initialize();
+      await zero.finalize();
+      const a = lefts.connect('a').initialize();
+      const b = lefts.connect('b').initialize();
+      const one = rights.connect(1).initialize();
+      await a.finalize();
+      const two = rights.connect(2).initialize();
+      await subscription.finalize();
+      await Promise.all([b, one, two].map(c => c.finalize()));
+
+      const result = logs.expect([
+        'a,1',
+        'released a,1',
+        'b,2',
+        'released b,2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should attach the latest value of another Source', async () => {
+      const logs = new LogCapture();
+      const clicks = new Portal<string>();
+      const user = new Atom<string>('ann');
+      const subscription = listen(logs, clicks.withLatestFrom(user));
+
+      const first = clicks.connect('save').initialize();
+      user.set('bob');
+      const second = clicks.connect('open').initialize();
+      await first.finalize();
+      await second.finalize();
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'save,ann',
+        'open,bob',
+        'released save,ann',
+        'released open,bob',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('Completion and errors', () => {
+    const logEnd = (logs: LogCapture): SourceHandlers => ({
+      complete: () => logs.log('complete'),
+      error: error => logs.log(`error: ${(error as Error).message}`),
+    });
+
+    const failing = (onAttempt: (attempt: number) => boolean) => {
+      let attempts = 0;
+      return new BasicSource<string>((listener, handlers) => {
+        attempts++;
+        if (!onAttempt(attempts)) {
+          handlers?.error?.(new Error(`attempt ${attempts} failed`));
+          return Routine.resolve(undefined);
+        }
+        return Source.of(`attempt ${attempts}`).subscribe(listener, handlers);
+      });
+    };
+
+    it('should complete Source.of and merge once all values are emitted', async () => {
+      const logs = new LogCapture();
+      const subscription = listen(
+        logs,
+        Source.of(1, 2).merge(Source.of(3)),
+        logEnd(logs)
+      );
+      await subscription.finalize();
+
+      const result = logs.expect([
+        '1',
+        '2',
+        '3',
+        'complete',
+        'released 1',
+        'released 2',
+        'released 3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should complete flatMap once the outer and inner Sources complete', async () => {
+      const logs = new LogCapture();
+      const completed = listen(
+        logs,
+        Source.of(1, 2).flatMap(n => Source.of(n, n * 10)),
+        logEnd(logs)
+      );
+      const atom = new Atom<number>(5);
+      const endless = listen(
+        logs,
+        atom.flatMap(n => Source.of(n)),
+        logEnd(logs)
+      );
+      await completed.finalize();
+      await endless.finalize();
+
+      const result = logs.expect([
+        '1',
+        '10',
+        '2',
+        '20',
+        'complete',
+        '5',
+        'released 1',
+        'released 10',
+        'released 2',
+        'released 20',
+        'released 5',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should complete combineAll once all Sources complete', async () => {
+      const logs = new LogCapture();
+      const subscription = listen(
+        logs,
+        Source.combineAll(Source.of('a'), Source.of(1, 2)),
+        logEnd(logs)
+      );
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'a,1',
+        'a,2',
+        'complete',
+        'released a,1',
+        'released a,2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should report a failing listener Routine to the error handler', async () => {
+      const logs = new LogCapture();
+      const atom = new Atom<number>(1);
+      const subscription = atom
+        .map(n => n * 2)
+        .subscribe(
+          n =>
+            new Effect<void>(async () => {
+              throw new Error(`cannot handle ${n}`);
+            }),
+          { error: error => logs.log((error as Error).message) }
+        )
+        .initialize();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await subscription.finalize();
+
+      const result = logs.expect(['cannot handle 2']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should continue with a fallback Source after an error', async () => {
+      const logs = new LogCapture();
+      const subscription = listen(
+        logs,
+        failing(() => false).catchError(error =>
+          Source.of(`recovered from ${(error as Error).message}`)
+        ),
+        logEnd(logs)
+      );
+      await subscription.finalize();
+
+      const result = logs.expect([
+        'recovered from attempt 1 failed',
+        'complete',
+        'released recovered from attempt 1 failed',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should release the values of this Source before the fallback subscribes', async () => {
+      const logs = new LogCapture();
+      const failingAfterValue = new BasicSource<string>(
+        (listener, handlers) =>
+          new Effect<void>(addFinalizeFn => {
+            const emitted = listener('1').initialize();
+            addFinalizeFn(async () => {
+              await new Promise(resolve => setTimeout(resolve, 5));
+              await emitted.finalize();
+            });
+            handlers?.error?.(new Error('failed'));
+          })
+      );
+      const fallback = new BasicSource<string>((listener, handlers) => {
+        logs.log('fallback subscribed');
+        return Source.of('2').subscribe(listener, handlers);
+      });
+
+      const subscription = listen(
+        logs,
+        failingAfterValue.catchError(() => fallback),
+        logEnd(logs)
+      );
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await subscription.finalize();
+
+      const result = logs.expect([
+        '1',
+        'released 1',
+        'fallback subscribed',
+        '2',
+        'complete',
+        'released 2',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should resubscribe after an error as allowed by the retry policy', async () => {
+      const logs = new LogCapture();
+      const clock = new ManualClock();
+      const recovering = listen(
+        logs,
+        failing(attempt => attempt === 3).retry(
+          RetryPolicy.count(3, 100),
+          clock
+        ),
+        logEnd(logs)
+      );
+      clock.advance(100);
+      logs.log('first retry');
+      clock.advance(100);
+      const givingUp = listen(
+        logs,
+        failing(() => false).retry(RetryPolicy.count(1, 100), clock),
+        logEnd(logs)
+      );
+      clock.advance(100);
+      await recovering.finalize();
+      await givingUp.finalize();
+
+      const result = logs.expect([
+        'first retry',
+        'attempt 3',
+        'complete',
+        'error: attempt 2 failed',
+        'released attempt 3',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should call the finally callback once', async () => {
+      const logs = new LogCapture();
+      const completed = listen(
+        logs,
+        Source.of(1).finally(() => logs.log('finally of')),
+        logEnd(logs)
+      );
+      const atom = new Atom<number>(2);
+      const endless = listen(
+        logs,
+        atom.finally(() => logs.log('finally atom')),
+        logEnd(logs)
+      );
+      await completed.finalize();
+      await endless.finalize();
+
+      const result = logs.expect([
+        '1',
+        'complete',
+        'finally of',
+        '2',
+        'released 1',
+        'released 2',
+        'finally atom',
+      ]);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+  });
+
+  describe('AsyncIterable interop', () => {
+    it('should emit each item until the next one arrives, then complete', async () => {
+      const logs = new LogCapture();
+      async function* letters(): AsyncGenerator<string> {
+        yield 'a';
+        yield 'b';
+      }
+      await new Promise<void>(resolve => {
+        Source.fromAsyncIterable(letters())
+          .subscribe(
+            value =>
+              toRoutine(() => useLog(logs, `${value}`, `released ${value}`)),
+            { complete: resolve }
+          )
+          .initialize();
+      });
+
+      const result = logs.expect(['a', 'released a', 'b', 'released b']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should stop the iteration when the subscription is finalized', async () => {
+      const logs = new LogCapture();
+      let closed!: () => void;
+      const generatorClosed = new Promise<void>(resolve => {
+        closed = resolve;
+      });
+      async function* counter(): AsyncGenerator<number> {
+        try {
+          for (let i = 0; ; i++) {
+            yield i;
+            await new Promise(resolve => setTimeout(resolve, 1));
+          }
+        } finally {
+          logs.log('generator closed');
+          closed();
+        }
+      }
+      let first!: () => void;
+      const firstEmitted = new Promise<void>(resolve => {
+        first = resolve;
+      });
+      const subscription = Source.fromAsyncIterable(counter())
+        .subscribe(value =>
+          toRoutine(() => {
+            useLog(logs, `${value}`, `released ${value}`);
+            first();
+          })
+        )
+        .initialize();
+      await firstEmitted;
+      await subscription.finalize();
+      await generatorClosed;
+
+      const result = logs.expect(['0', 'released 0', 'generator closed']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should report a failing iteration without an error handler', async () => {
+      const logs = new LogCapture();
+      const defaultHandler = getConfig().onUnhandledError;
+      const reported = new Promise<unknown>(resolve => {
+        configure({ onUnhandledError: resolve });
+      });
+      try {
+        async function* failing(): AsyncGenerator<string> {
+          yield 'a';
+          throw new Error('iteration failed');
+        }
+        const subscription = Source.fromAsyncIterable(failing())
+          .subscribe(value =>
+            toRoutine(() => useLog(logs, `${value}`, `released ${value}`))
+          )
+          .initialize();
+
+        const error = await reported;
+        assert.strictEqual((error as Error).message, 'iteration failed');
+        const result = logs.expect(['a', 'released a']);
+        assert.strictEqual(result.passed, true, result.message);
+        await subscription.finalize();
+      } finally {
+        configure({ onUnhandledError: defaultHandler });
+      }
+    });
+
+    it('should iterate the values of a Source until it completes', async () => {
+      const values: number[] = [];
+      for await (const value of Source.of(1, 2, 3).toAsyncIterable()) {
+        values.push(value);
+      }
+      assert.deepStrictEqual(values, [1, 2, 3]);
+    });
+
+    it('should finalize the subscription on break', async () => {
+      const logs = new LogCapture();
+      const atom = new Atom<number>(1);
+      for await (const value of atom
+        .finally(() => logs.log('finalized'))
+        .toAsyncIterable()) {
+        logs.log(`got ${value}`);
+        break;
+      }
+      logs.log('after loop');
+
+      const result = logs.expect(['got 1', 'finalized', 'after loop']);
+      assert.strictEqual(result.passed, true, result.message);
+    });
+
+    it('should buffer values according to the buffer policy', async () => {
+      const portal = new Portal<number>();
+      const latest = portal.toAsyncIterable({ size: 2 });
+      const strict = portal.toAsyncIterable({ size: 1, overflow: 'error' });
+      const pulled = [latest.next(), strict.next()];
+      const connections = [1, 2, 3, 4].map(n => portal.connect(n).initialize());
+
+      const [firstLatest, firstStrict] = await Promise.all(pulled);
+      assert.deepStrictEqual(firstLatest, { value: 1, done: false });
+      assert.deepStrictEqual(firstStrict, { value: 1, done: false });
+      assert.deepStrictEqual(await latest.next(), { value: 3, done: false });
+      assert.deepStrictEqual(await latest.next(), { value: 4, done: false });
+      assert.deepStrictEqual(await strict.next(), { value: 2, done: false });
+      await assert.rejects(strict.next(), BufferOverflowError);
+      assert.deepStrictEqual(await strict.next(), {
+        value: undefined,
+        done: true,
+      });
+
+      await latest.return!();
+      await Promise.all(connections.map(c => c.finalize()));
+    });
+  });
 });
@@ -67,3 +67,40 @@ export class LogCapture {
     };
   }
 }
+
+// A clock that only moves when told to, for deterministic timer tests
+export class ManualClock {
+  private time = 0;
+  private nextId = 0;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  setTimeout(callback: () => void, delayMs: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delayMs, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  // Move time forward, running due timers in order
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const due = [...this.timers.entries()]
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (due === undefined) break;
+      const [id, timer] = due;
+      this.timers.delete(id);
+      this.time = timer.at;
+      timer.callback();
+    }
+    this.time = end;
+  }
+}